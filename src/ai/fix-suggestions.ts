@@ -1,6 +1,7 @@
 import { createFixSuggestionInstruction } from './claude-integration';
 import { lintContent, type SEOLintResult } from '../core/seo-rules';
-import { ContentFile } from '../types';
+import { ContentFile, GTMConfig, SEOLintFix } from '../types';
+import type { LintCache } from '../core/lint-cache';
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -18,6 +19,8 @@ export interface FixSuggestion {
   estimatedTime: string;
   beforeExample?: string;
   afterExample?: string;
+  // Exact edit from the lint rule; beforeExample holds the text it replaces
+  fix?: SEOLintFix;
 }
 
 export interface ExecutionPlan {
@@ -34,7 +37,7 @@ export interface ExecutionPlan {
 }
 
 export class FixSuggestionsGenerator {
-  constructor() {}
+  constructor(private config?: GTMConfig, private cache?: LintCache) {}
 
   async generateFixSuggestions(
     contentFiles: ContentFile[],
@@ -57,11 +60,13 @@ export class FixSuggestionsGenerator {
         // Run SEO linting first
         const lintResults = lintContent(file.content, {
           filePath: file.path,
-          frontmatter: file.frontmatter
+          frontmatter: file.frontmatter,
+          config: this.config,
+          cache: this.cache
         });
 
         // Convert lint results to fix suggestions
-        const lintFixes = this.convertLintResultsToFixes(file.path, lintResults);
+        const lintFixes = this.convertLintResultsToFixes(file, lintResults);
         allFixes.push(...lintFixes);
 
         // Generate AI-powered suggestions if enabled
@@ -83,11 +88,12 @@ export class FixSuggestionsGenerator {
     return executionPlan;
   }
 
-  private convertLintResultsToFixes(filePath: string, lintResults: SEOLintResult[]): FixSuggestion[] {
+  private convertLintResultsToFixes(file: ContentFile, lintResults: SEOLintResult[]): FixSuggestion[] {
+    const filePath = file.path;
     return lintResults
-      .filter(result => !result.passed)
+      .filter(result => !result.passed && !result.suppressed)
       .map((result, index) => {
-        const isAutoFixable = this.isAutoFixable(result.rule);
+        const isAutoFixable = result.fix !== undefined || this.isAutoFixable(result.rule);
         const priority = this.determinePriority(result.rule, result.severity);
 
         return {
@@ -102,8 +108,11 @@ export class FixSuggestionsGenerator {
           impact: this.determineImpact(result.rule),
           difficulty: isAutoFixable ? 'easy' : 'medium',
           estimatedTime: isAutoFixable ? '2-5 min' : '10-30 min',
-          beforeExample: this.generateBeforeExample(result),
-          afterExample: this.generateAfterExample(result)
+          beforeExample: result.fix
+            ? file.content.slice(result.fix.range[0], result.fix.range[1])
+            : this.generateBeforeExample(result),
+          afterExample: result.fix ? result.fix.text : this.generateAfterExample(result),
+          fix: result.fix
         };
       });
   }
@@ -9,6 +9,7 @@ import { auditCommand } from './commands/audit';
 import { createSuggestionsCommand } from './commands/suggestions';
 import { createFixCommand } from './commands/fix';
 import { createLintCommand } from './commands/lint';
+import { createRulesCommand } from './commands/rules';
 
 const program = new Command();
 const version = require('../package.json').version as string;
@@ -24,7 +25,9 @@ ${chalk.cyan('GTM Toolkit')} ${chalk.gray(`v${version}`)}
 ${chalk.gray('Continuous Marketing Automation')}
 `;
 
-console.log(banner);
+// On stderr, like the spinners, so stdout carries only the command's output:
+// `lint --format sarif > out.sarif` and NDJSON watch events stay parseable
+console.error(banner);
 
 program
   .command('init')
@@ -41,6 +44,7 @@ program
   .option('-r, --robots', 'generate robots.txt')
   .option('-s, --sitemap', 'generate sitemap.xml')
   .option('-m, --meta', 'generate meta tags template')
+  .option('-d, --structured-data', 'generate JSON-LD structured data for each content page')
   .option('--all', 'generate all files')
   .action(generateCommand);
 
@@ -59,10 +63,13 @@ program
   .option('-c, --content', 'audit content SEO')
   .option('-t, --technical', 'audit technical SEO')
   .option('--all', 'run all audits')
+  .option('--no-cache', 'lint every file instead of reusing cached results')
+  .option('--cache-location <file>', 'path to the lint cache file')
   .action(auditCommand);
 
 program.addCommand(createLintCommand());
 program.addCommand(createSuggestionsCommand());
 program.addCommand(createFixCommand());
+program.addCommand(createRulesCommand());
 
 program.parse();
@@ -96,7 +96,8 @@ export async function analyzeCommand(options: AnalyzeCommandOptions = {}) {
       const keywordsTool = new KeywordsResearchTool({
         siteUrl,
         gscCredentials: credentials,
-        aiAssistantKey: config.ai?.apiKey
+        aiAssistantKey: config.ai?.apiKey,
+        keywords: config.seo.keywords
       });
 
       try {
@@ -1,15 +1,20 @@
 // Audit command implementation
 import chalk from 'chalk';
 import ora from 'ora';
-import { SEO_RULES } from '../core/seo-rules';
-import { readdirSync, readFileSync, existsSync } from 'fs';
-import { join, basename } from 'path';
-import matter from 'gray-matter';
+import { addCorpusResults, createLintReport, lintCorpus } from '../core/seo-rules';
+import { getScoreDeductions } from '../core/scoring';
+import { existsSync } from 'fs';
+import { loadConfig } from '../utils/config';
+import { loadSiteContentFiles } from '../utils/content-loader';
+import { ContentFile, GTMConfig } from '../types';
+import { DEFAULT_CACHE_LOCATION, LintCache } from '../core/lint-cache';
 
 interface AuditOptions {
   content?: boolean;
   technical?: boolean;
   all?: boolean;
+  cache?: boolean;
+  cacheLocation?: string;
 }
 
 export async function auditCommand(options: AuditOptions = {}) {
@@ -18,21 +23,34 @@ export async function auditCommand(options: AuditOptions = {}) {
   try {
     // Content SEO audit
     if (options.content || options.all) {
+      const config = await loadConfig();
       const spinner = ora('Auditing content SEO...').start();
       
       let totalFiles = 0;
       let totalIssues = 0;
       let totalScore = 0;
+      let deductions = new Map<string, number>();
 
-      const contentPath = 'content';
-      if (existsSync(contentPath)) {
-        const auditResults = await auditContentDirectory(contentPath);
+      const files = await loadSiteContentFiles(config);
+      if (files.length > 0) {
+        const cache = options.cache !== false
+          ? await LintCache.load(config, options.cacheLocation ?? DEFAULT_CACHE_LOCATION)
+          : undefined;
+        const auditResults = await auditContent(files, config, cache);
+        await cache?.save();
         totalFiles = auditResults.fileCount;
         totalIssues = auditResults.issueCount;
         totalScore = auditResults.averageScore;
+        deductions = auditResults.deductions;
       }
 
       spinner.succeed(`Content audit complete: ${totalFiles} files, ${totalIssues} issues, ${totalScore.toFixed(1)}% average score`);
+      [...deductions.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .forEach(([rule, points]) => {
+          console.log(chalk.yellow(`  ⚠️  ${rule} costs ${(points / totalFiles).toFixed(1)} points per file on average`));
+        });
     }
 
     // Technical SEO audit
@@ -66,61 +84,39 @@ export async function auditCommand(options: AuditOptions = {}) {
   }
 }
 
-async function auditContentDirectory(dirPath: string): Promise<{
+// Same reports and scores as `gtm-toolkit lint`: per-file rules plus the
+// corpus pass (SEO-021/022, SEO-070 to SEO-074). Audit applies no baseline,
+// so every finding counts as an issue.
+async function auditContent(files: ContentFile[], config: GTMConfig, cache?: LintCache): Promise<{
   fileCount: number;
   issueCount: number;
   averageScore: number;
+  // Rule id -> score points lost, summed over files
+  deductions: Map<string, number>;
 }> {
-  let fileCount = 0;
   let totalIssues = 0;
   let totalScore = 0;
+  const deductions = new Map<string, number>();
+  const corpusResults = lintCorpus(files, { config });
 
-  function processDirectory(path: string) {
-    const items = readdirSync(path, { withFileTypes: true });
-    
-    for (const item of items) {
-      const itemPath = join(path, item.name);
-      
-      if (item.isDirectory()) {
-        processDirectory(itemPath);
-      } else if (item.name.endsWith('.md') || item.name.endsWith('.mdx')) {
-        fileCount++;
-        const result = auditFile(itemPath);
-        totalIssues += result.issues;
-        totalScore += result.score;
-      }
-    }
-  }
-
-  processDirectory(dirPath);
+  files.forEach(file => {
+    const report = addCorpusResults(
+      createLintReport(file.content, { filePath: file.path, frontmatter: file.frontmatter, config, cache }),
+      file.content,
+      corpusResults.get(file.path) ?? [],
+      config.scoring
+    );
+    totalIssues += report.summary.errors + report.summary.warnings + report.summary.info;
+    totalScore += report.score;
+    getScoreDeductions(report.scoreBreakdown).forEach(rule => {
+      deductions.set(rule.rule, (deductions.get(rule.rule) ?? 0) + rule.maxPoints);
+    });
+  });
 
   return {
-    fileCount,
+    fileCount: files.length,
     issueCount: totalIssues,
-    averageScore: fileCount > 0 ? totalScore / fileCount : 0
+    averageScore: files.length > 0 ? totalScore / files.length : 0,
+    deductions
   };
 }
-
-function auditFile(filePath: string): { issues: number; score: number } {
-  try {
-    const content = readFileSync(filePath, 'utf8');
-    const { data: frontmatter } = matter(content);
-    
-    let issues = 0;
-    let passedRules = 0;
-    
-    SEO_RULES.forEach(rule => {
-      const result = rule.check(content, frontmatter, basename(filePath));
-      if (!result.passed) {
-        issues++;
-      } else {
-        passedRules++;
-      }
-    });
-    
-    const score = (passedRules / SEO_RULES.length) * 100;
-    return { issues, score };
-  } catch (error) {
-    return { issues: 1, score: 0 };
-  }
-}
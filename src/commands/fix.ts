@@ -124,7 +124,7 @@ async function generateNewExecutionPlan(contentPath: string): Promise<ExecutionP
     extensions: config.content?.extensions || ['.md', '.mdx']
   });
 
-  const generator = new FixSuggestionsGenerator();
+  const generator = new FixSuggestionsGenerator(config);
 
   return await generator.generateFixSuggestions(contentFiles);
 }
@@ -318,6 +318,16 @@ async function applyAutoFix(fix: FixSuggestion): Promise<boolean> {
 }
 
 async function applyFixToContent(content: string, fix: FixSuggestion): Promise<string> {
+  // Rule fixes carry exact offsets; skip them if the file changed since the
+  // plan was generated and the text no longer matches
+  if (fix.fix) {
+    const [start, end] = fix.fix.range;
+    if (content.slice(start, end) !== (fix.beforeExample ?? '')) {
+      return content;
+    }
+    return content.slice(0, start) + fix.fix.text + content.slice(end);
+  }
+
   // This is a simplified implementation - real implementation would handle
   // specific fix types based on the fix.id and fix.category
 
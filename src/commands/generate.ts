@@ -4,16 +4,20 @@ import ora from 'ora';
 import path from 'path';
 import { RobotsGenerator } from '../generators/robots-generator';
 import { SitemapGenerator } from '../generators/sitemap-generator';
+import { StructuredDataGenerator } from '../generators/structured-data-generator';
+import { DEFAULT_STATIC_PAGES } from '../utils/slug';
 import { GTMConfig } from '../types';
 import { existsSync, readFileSync, mkdirSync, writeFileSync } from 'fs';
 import { auditCommand } from './audit';
 import { GoogleSearchConsoleClient } from '../integrations/google-search-console';
 import { KeywordsResearchTool } from '../core/keywords-research';
+import { getPublicDir } from '../core/images';
 
 interface GenerateCommandOptions {
   robots?: boolean;
   sitemap?: boolean;
   meta?: boolean;
+  structuredData?: boolean;
   all?: boolean;
 }
 
@@ -44,7 +48,7 @@ export async function generateCommand(options: GenerateCommandOptions = {}) {
         },
         geo: {
           enabled: true,
-          optimizeForAI: true,
+          optimizeForAI: false,
           structuredData: true
         }
       } as GTMConfig;
@@ -103,7 +107,7 @@ export async function generateCommand(options: GenerateCommandOptions = {}) {
           await sitemapGenerator.generate({
             contentPath: 'content',
             outputPath: 'public',
-            staticPages: ['/', '/about', '/contact', '/blog', '/services']
+            staticPages: config.content?.staticPages ?? DEFAULT_STATIC_PAGES
           });
           spinner.succeed('sitemap.xml generated');
         }
@@ -113,6 +117,24 @@ export async function generateCommand(options: GenerateCommandOptions = {}) {
       }
     }
 
+    // Generate JSON-LD structured data. Unlike robots.txt and the sitemap these
+    // files are rebuilt from content on every run, so existing ones are replaced.
+    if (options.structuredData || (options.all && config.geo?.structuredData)) {
+      const spinner = ora('Generating JSON-LD structured data...').start();
+      try {
+        const outputPath = path.join(getPublicDir(config), 'structured-data');
+        const structuredDataGenerator = new StructuredDataGenerator(config);
+        const pages = await structuredDataGenerator.generate({
+          contentPath: config.content?.contentPath ?? 'content',
+          outputPath
+        });
+        spinner.succeed(`Structured data generated for ${pages.length} page(s) in ${outputPath}`);
+      } catch (error) {
+        spinner.fail('Failed to generate structured data');
+        throw error;
+      }
+    }
+
     // Generate meta tags
     if (options.meta || options.all) {
       const spinner = ora('Generating meta tags template...').start();
@@ -222,7 +244,8 @@ Until credentials are connected, this file is a placeholder to remind you to int
     const siteUrl = gscConfig.siteUrl || config.seo.siteUrl;
     const keywordsTool = new KeywordsResearchTool({
       siteUrl,
-      gscCredentials: credentials
+      gscCredentials: credentials,
+      keywords: config.seo.keywords
     });
 
     const endDate = new Date();
@@ -3,8 +3,137 @@ import chalk from 'chalk';
 import ora from 'ora';
 import path from 'path';
 import { globSync } from 'glob';
-import { lintContent, summarizeLintResults } from '../core/seo-rules';
-import { loadContentFiles } from '../utils/content-loader';
+import fs from 'fs-extra';
+import {
+  addCorpusResults,
+  createLintReport,
+  getActiveRules,
+  getAllRuleIds,
+  lintCorpus,
+  summarizeLintResults
+} from '../core/seo-rules';
+import { CORPUS_RULES } from '../core/corpus-rules';
+import { resolveRuleSettings } from '../core/rule-config';
+import { BaselineInput, applyBaseline, createBaseline, readBaseline, writeBaseline } from '../core/baseline';
+import { applyFixes } from '../core/fixes';
+import { DEFAULT_CACHE_LOCATION, LintCache } from '../core/lint-cache';
+import { getDefaultConcurrency, getWorkerCount, lintInWorkers } from '../core/lint-pool';
+import { loadFormatter } from '../formatters';
+import { consoleFormatter } from '../formatters/console';
+import { toJsonReport } from '../formatters/json';
+import { ContentFile, LintFormatterContext, SEOLintReport } from '../types';
+import { loadContentFiles, loadSiteContentFiles } from '../utils/content-loader';
+import { DEFAULT_CONFIG_PATH, loadConfig } from '../utils/config';
+import { ChangedFile, filterChangedFiles, getChangedFiles, isLineChanged } from '../utils/git';
+import { watchContent } from '../utils/watch';
+
+// Load content files from files, directories and glob patterns
+async function loadTargetFiles(
+  targets: string[],
+  onError: (target: string, error: Error) => void
+): Promise<ContentFile[]> {
+  const files: ContentFile[] = [];
+
+  for (const target of targets) {
+    const expandedTargets = /[*?]/.test(target) ? globSync(target) : [target];
+
+    for (const expandedTarget of expandedTargets) {
+      try {
+        // No file cap: every file under the targets is linted
+        const contentFiles = await loadContentFiles(expandedTarget, { recursive: true, maxFiles: Infinity });
+        files.push(...contentFiles);
+      } catch (error) {
+        onError(expandedTarget, error as Error);
+      }
+    }
+  }
+
+  return files;
+}
+
+// Write the fixes of a file's findings back to disk. Returns the reloaded
+// file, or undefined when nothing was fixable.
+async function fixFile(file: ContentFile, report: SEOLintReport): Promise<{ file: ContentFile; fixed: number } | undefined> {
+  const { content, applied } = applyFixes(file.content, report.results);
+  if (applied.length === 0) {
+    return undefined;
+  }
+  await fs.writeFile(file.path, content, 'utf-8');
+  const [fixedFile] = await loadContentFiles(file.path);
+  return { file: fixedFile, fixed: applied.length };
+}
+
+// Keep the process alive and re-lint files as they change. Console output is
+// redrawn as a compact summary; JSON output is one event per line (NDJSON).
+function startWatchMode(
+  initialReports: SEOLintReport[],
+  watchTargets: string[],
+  json: boolean,
+  lintPath: (filePath: string) => Promise<SEOLintReport | undefined>,
+  context: LintFormatterContext
+): void {
+  const reports = new Map(initialReports.map(report => [path.resolve(report.file), report]));
+  const emit = (event: Record<string, unknown>) => console.log(JSON.stringify(event));
+
+  const redraw = () => {
+    const entries = [...reports.values()];
+    const errors = entries.reduce((acc, entry) => acc + entry.summary.errors, 0);
+    const warnings = entries.reduce((acc, entry) => acc + entry.summary.warnings, 0);
+    const withProblems = entries.filter(entry =>
+      entry.unusedSuppressions.length > 0 ||
+      entry.results.some(result => !result.passed && !result.suppressed && !result.baselined)
+    );
+
+    console.clear();
+    console.log(
+      `${chalk.bold(`Watching ${entries.length} files: ${errors} error(s), ${warnings} warning(s)`)} ` +
+      chalk.gray(`(${new Date().toLocaleTimeString()})`)
+    );
+    if (withProblems.length > 0) {
+      console.log(consoleFormatter(withProblems, context));
+    }
+    console.log(chalk.gray('\nWaiting for changes... (Ctrl+C to stop)'));
+  };
+
+  if (json) {
+    initialReports.forEach(report => emit({ event: 'result', ...toJsonReport(report) }));
+    emit({ event: 'ready', files: reports.size });
+  } else {
+    redraw();
+  }
+
+  // Serialize batches so a slow lint never interleaves with the next one
+  let queue = Promise.resolve();
+  const watcher = watchContent(watchTargets, files => {
+    queue = queue.then(async () => {
+      for (const file of files) {
+        const relativePath = path.relative(process.cwd(), file);
+        try {
+          const report = await lintPath(relativePath);
+          if (report) {
+            reports.set(file, report);
+            if (json) {
+              emit({ event: 'result', ...toJsonReport(report) });
+            }
+          } else if (reports.delete(file) && json) {
+            emit({ event: 'deleted', file: relativePath });
+          }
+        } catch (error) {
+          if (json) {
+            emit({ event: 'error', file: relativePath, message: (error as Error).message });
+          } else {
+            console.error(chalk.red(`Failed to lint ${relativePath}: ${(error as Error).message}`));
+          }
+        }
+      }
+      if (!json) {
+        redraw();
+      }
+    });
+  });
+
+  process.once('SIGINT', () => watcher.close());
+}
 
 export function createLintCommand(): Command {
   const cmd = new Command('lint');
@@ -12,28 +141,92 @@ export function createLintCommand(): Command {
   cmd
     .description('Lint markdown content for GTM SEO guard rails')
     .argument('[paths...]', 'Files or directories to lint', ['content'])
-    .option('-f, --format <type>', 'output format (console, json)', 'console')
+    .option(
+      '-f, --format <type>',
+      'output format (console, json, sarif, junit, checkstyle, github, markdown, or a custom formatter)',
+      'console'
+    )
+    .option('-o, --output <file>', 'write the report to a file instead of stdout')
     .option('--fail-on-error', 'Set non-zero exit code when errors are found')
+    .option('--changed', 'Only lint files changed since HEAD (including untracked files)')
+    .option('--since <ref>', 'Only lint files changed since the merge base with <ref>')
+    .option('--staged', 'Only lint files staged for commit')
+    .option('--changed-lines', 'Only report findings on changed lines (with --changed, --since or --staged)')
+    .option('--baseline <file>', 'Only report findings missing from this baseline file')
+    .option('--write-baseline <file>', 'Record current findings in a baseline file and exit')
+    .option('--fix', 'Apply automatic fixes to the files, then report the remaining findings')
+    .option('-w, --watch', 'Watch the target paths and re-lint files as they change')
+    .option('--no-cache', 'Lint every file instead of reusing cached results')
+    .option('--cache-location <file>', 'Path to the lint cache file', DEFAULT_CACHE_LOCATION)
+    .option('--concurrency <n>', 'Number of worker threads used to lint files (default: CPU count)')
     .action(async (paths: string[], options) => {
       const spinner = ora('Loading content...').start();
 
       try {
+        // Lint workers load this same file
+        const configPath = path.resolve(DEFAULT_CONFIG_PATH);
+        const config = await loadConfig(configPath);
+        const formatter = loadFormatter(options.format, config);
+        const concurrency = options.concurrency !== undefined
+          ? Number.parseInt(options.concurrency, 10)
+          : getDefaultConcurrency();
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+          spinner.fail(`--concurrency must be a positive integer (got "${options.concurrency}")`);
+          process.exitCode = 1;
+          return;
+        }
+        const baseline = options.baseline && !options.writeBaseline
+          ? await readBaseline(options.baseline)
+          : undefined;
+        const rules = [
+          ...resolveRuleSettings(getActiveRules(config), config.rules, getAllRuleIds(config)),
+          ...resolveRuleSettings(CORPUS_RULES, config.rules, getAllRuleIds(config))
+        ].map(({ rule, severity }) => ({ ...rule, severity }));
         const targets = paths.length > 0 ? paths : ['content'];
-        const files = [];
+        const warnLoadFailure = (target: string, error: Error) =>
+          spinner.warn(`Failed to load ${target}: ${error.message}`);
+        const gitMode = Boolean(options.changed || options.since || options.staged);
+        let changedFiles: ChangedFile[] | undefined;
+
+        if (options.changedLines && !gitMode) {
+          spinner.fail('--changed-lines requires --changed, --since or --staged');
+          process.exitCode = 1;
+          return;
+        }
 
-        for (const target of targets) {
-          const expandedTargets = /[*?]/.test(target) ? globSync(target) : [target];
+        // A baseline written from a subset of files would drop every other file's entries
+        if (options.writeBaseline && gitMode) {
+          spinner.fail('--write-baseline cannot be combined with --changed, --since or --staged');
+          process.exitCode = 1;
+          return;
+        }
 
-          for (const expandedTarget of expandedTargets) {
-            try {
-              const contentFiles = await loadContentFiles(expandedTarget, { recursive: true });
-              files.push(...contentFiles);
-            } catch (error) {
-              spinner.warn(`Failed to load ${expandedTarget}: ${(error as Error).message}`);
-            }
+        if (options.watch && (gitMode || options.output || options.writeBaseline || options.fix)) {
+          spinner.fail('--watch cannot be combined with --changed, --since, --staged, --output, --write-baseline or --fix');
+          process.exitCode = 1;
+          return;
+        }
+        if (options.watch && !['console', 'json'].includes(options.format)) {
+          spinner.fail('--watch supports the console and json formats');
+          process.exitCode = 1;
+          return;
+        }
+
+        if (gitMode) {
+          changedFiles = filterChangedFiles(
+            getChangedFiles({ since: options.since, staged: options.staged }),
+            targets
+          );
+          if (changedFiles.length === 0) {
+            spinner.succeed('No changed content files to lint');
+            return;
           }
         }
 
+        const files = changedFiles
+          ? await loadTargetFiles(changedFiles.map(file => path.relative(process.cwd(), file.path)), warnLoadFailure)
+          : await loadTargetFiles(targets, warnLoadFailure);
+
         if (files.length === 0) {
           spinner.fail('No content files found to lint');
           process.exitCode = 1;
@@ -42,54 +235,135 @@ export function createLintCommand(): Command {
 
         spinner.succeed(`Linting ${files.length} content files...`);
 
-        const lintResults = files.map(file => {
-          const results = lintContent(file.content, {
+        const cache = options.cache ? await LintCache.load(config, options.cacheLocation) : undefined;
+
+        const lintReport = (file: ContentFile): SEOLintReport =>
+          createLintReport(file.content, {
             filePath: file.path,
-            frontmatter: file.frontmatter
+            frontmatter: file.frontmatter,
+            config,
+            cache
           });
-          const { summary, score } = summarizeLintResults(results);
-          return {
-            file: file.path,
-            results,
-            summary,
-            score
-          };
-        });
-
-        if (options.format === 'json') {
-          const report = lintResults.map(entry => ({
-            file: entry.file,
-            summary: entry.summary,
-            score: entry.score,
-            findings: entry.results
-          }));
-          console.log(JSON.stringify(report, null, 2));
-        } else {
-          lintResults.forEach(entry => {
-            const relativePath = path.relative(process.cwd(), entry.file) || entry.file;
-            const heading = entry.summary.errors > 0
-              ? chalk.red.bold('✖')
-              : entry.summary.warnings > 0
-                ? chalk.yellow.bold('⚠')
-                : chalk.green.bold('✓');
-
-            console.log(`\n${heading} ${chalk.bold(relativePath)} (${entry.score.toFixed(1)}%)`);
-            console.log(
-              chalk.gray(
-                `   errors: ${entry.summary.errors} | warnings: ${entry.summary.warnings} | passed: ${entry.summary.passed}`
+
+        // Cache misses go to the worker pool when there are enough of them;
+        // reports keep the input order either way
+        const lintAll = async (): Promise<SEOLintReport[]> => {
+          const pending = files.filter(file => !cache?.get(file.path, file.content));
+          if (getWorkerCount(pending.length, concurrency) <= 1) {
+            return files.map(lintReport);
+          }
+
+          const workerReports = await lintInWorkers(
+            pending.map(file => ({ filePath: file.path, content: file.content, frontmatter: file.frontmatter })),
+            { concurrency, configPath }
+          );
+          const reportsByFile = new Map<ContentFile, SEOLintReport>();
+          workerReports.forEach((report, index) => {
+            const file = pending[index];
+            reportsByFile.set(file, report);
+            cache?.set(file.path, file.content, {
+              results: report.results,
+              unusedSuppressions: report.unusedSuppressions,
+              readability: report.readability
+            });
+          });
+          return files.map(file => reportsByFile.get(file) ?? lintReport(file));
+        };
+
+        const toInput = (file: ContentFile, report: SEOLintReport): BaselineInput => {
+          const changedFile = changedFiles?.find(changed => changed.path === path.resolve(file.path));
+          if (!options.changedLines || !changedFile) {
+            return { report, content: file.content };
+          }
+
+          // Findings without a line are document-level and always reported
+          const results = report.results.filter(result =>
+            result.passed || result.line === undefined || isLineChanged(changedFile, result.line)
+          );
+          return { report: { ...report, results, ...summarizeLintResults(results, config.scoring) }, content: file.content };
+        };
+        const finalizeReport = (input: BaselineInput): SEOLintReport =>
+          baseline ? applyBaseline(input, baseline, { scoring: config.scoring }) : input.report;
+
+        // Corpus rules compare files with each other, so in git modes they
+        // still see every file under the targets, not just the changed ones
+        const corpus = new Map(
+          (changedFiles ? await loadTargetFiles(targets, warnLoadFailure) : files)
+            .map(file => [path.resolve(file.path), file])
+        );
+        files.forEach(file => corpus.set(path.resolve(file.path), file));
+        // Links are resolved against the whole site, whatever the targets are
+        let siteFiles = await loadSiteContentFiles(config);
+
+        const reports = await lintAll();
+        let fixedCount = 0;
+        if (options.fix) {
+          // Fixed files are linted again so the report shows what is left
+          for (const [index, file] of files.entries()) {
+            const fixed = await fixFile(file, reports[index]);
+            if (fixed) {
+              files[index] = fixed.file;
+              corpus.set(path.resolve(file.path), fixed.file);
+              reports[index] = lintReport(fixed.file);
+              fixedCount += fixed.fixed;
+            }
+          }
+        }
+        const corpusResults = lintCorpus([...corpus.values()], { config, siteFiles });
+        const lintInputs = files.map((file, index) =>
+          toInput(file, addCorpusResults(reports[index], file.content, corpusResults.get(file.path) ?? [], config.scoring))
+        );
+        await cache?.save();
+
+        if (options.writeBaseline) {
+          const newBaseline = createBaseline(lintInputs);
+          await writeBaseline(options.writeBaseline, newBaseline);
+          console.log(chalk.green(`Baseline written to ${options.writeBaseline} (${newBaseline.findings.length} findings)`));
+          return;
+        }
+
+        const lintResults = lintInputs.map(finalizeReport);
+
+        if (options.watch) {
+          const watchTargets = targets.flatMap(target => (/[*?]/.test(target) ? globSync(target) : [target]));
+          const lintPath = async (filePath: string): Promise<SEOLintReport | undefined> => {
+            if (!(await fs.pathExists(filePath))) {
+              corpus.delete(path.resolve(filePath));
+              siteFiles = siteFiles.filter(file => path.resolve(file.path) !== path.resolve(filePath));
+              return undefined;
+            }
+            const [contentFile] = await loadContentFiles(filePath);
+            corpus.set(path.resolve(filePath), contentFile);
+            // Corpus findings are refreshed for the changed file only
+            const fileCorpusResults = lintCorpus([...corpus.values()], { config, siteFiles }).get(contentFile.path) ?? [];
+            return finalizeReport(
+              toInput(
+                contentFile,
+                addCorpusResults(lintReport(contentFile), contentFile.content, fileCorpusResults, config.scoring)
               )
             );
+          };
+          startWatchMode(lintResults, watchTargets, options.format === 'json', lintPath, { cwd: process.cwd(), rules });
+          return;
+        }
 
-            entry.results
-              .filter(result => !result.passed)
-              .forEach(result => {
-                const label = result.severity === 'error' ? chalk.red('error') : chalk.yellow('warning');
-                console.log(`   - [${label}] ${result.rule}: ${result.message}`);
-                if (result.suggestion) {
-                  console.log(chalk.gray(`     suggestion: ${result.suggestion}`));
-                }
-              });
-          });
+        const output = formatter(lintResults, { cwd: process.cwd(), rules });
+        if (options.output) {
+          await fs.outputFile(options.output, `${output}\n`);
+          console.log(chalk.green(`Lint report written to ${options.output}`));
+        } else {
+          console.log(output);
+        }
+
+        if (fixedCount > 0 && options.format === 'console' && !options.output) {
+          console.log(chalk.green(`\nFixed ${fixedCount} finding(s) automatically.`));
+        }
+
+        if (baseline && options.format === 'console' && !options.output) {
+          const fixedBaselineCount = lintResults.reduce((acc, entry) => acc + (entry.fixedBaselineFindings?.length ?? 0), 0);
+          if (fixedBaselineCount > 0) {
+            console.log(chalk.green(`\n${fixedBaselineCount} baselined finding(s) fixed. Run with --write-baseline ${options.baseline} to shrink the baseline.`));
+          }
         }
 
         const totalErrors = lintResults.reduce((acc, entry) => acc + entry.summary.errors, 0);
@@ -0,0 +1,155 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { findClosestMatch } from '../core/link-inventory';
+import { formatRuleOptions, formatRuleReference, getRuleCatalog, RuleCatalogEntry } from '../core/rule-docs';
+import { RuleSeveritySetting } from '../types';
+import { loadConfig } from '../utils/config';
+
+interface RulesListOptions {
+  severity?: string;
+  category?: string;
+}
+
+interface RulesDocsOptions {
+  output?: string;
+}
+
+const SEVERITIES: RuleSeveritySetting[] = ['error', 'warning', 'info', 'off'];
+
+const colorSeverity = (severity: RuleSeveritySetting): string => {
+  if (severity === 'error') {
+    return chalk.red(severity);
+  }
+  if (severity === 'warning') {
+    return chalk.yellow(severity);
+  }
+  return severity === 'info' ? chalk.blue(severity) : chalk.gray(severity);
+};
+
+// Pad before coloring so ANSI codes do not throw off the column widths
+const formatTable = (entries: RuleCatalogEntry[]): string[] => {
+  const idWidth = Math.max(...entries.map(entry => entry.rule.id.length), 'ID'.length);
+  const categoryWidth = Math.max(...entries.map(entry => entry.docs.category.length), 'Category'.length);
+  const severityWidth = 'Severity'.length;
+
+  return [
+    chalk.bold(`${'ID'.padEnd(idWidth)}  ${'Severity'.padEnd(severityWidth)}  ${'Category'.padEnd(categoryWidth)}  Name`),
+    ...entries.map(({ rule, severity, docs }) =>
+      `${rule.id.padEnd(idWidth)}  ${colorSeverity(severity)}${' '.repeat(severityWidth - severity.length)}  ` +
+      `${docs.category.padEnd(categoryWidth)}  ${rule.name}`
+    )
+  ];
+};
+
+const listRules = async (options: RulesListOptions): Promise<void> => {
+  if (options.severity && !SEVERITIES.includes(options.severity as RuleSeveritySetting)) {
+    console.error(chalk.red(`--severity must be one of: ${SEVERITIES.join(', ')} (got "${options.severity}")`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const catalog = getRuleCatalog(await loadConfig());
+  const category = options.category?.toLowerCase();
+  const entries = catalog.filter(entry =>
+    (!options.severity || entry.severity === options.severity) &&
+    (!category || entry.docs.category.toLowerCase().includes(category))
+  );
+
+  if (entries.length === 0) {
+    console.log(chalk.yellow('No rules match the given filters.'));
+    console.log(chalk.gray(`Categories: ${[...new Set(catalog.map(entry => entry.docs.category))].join(', ')}`));
+    return;
+  }
+
+  formatTable(entries).forEach(line => console.log(line));
+  console.log(chalk.gray(`\n${entries.length} of ${catalog.length} rule(s). Run "gtm-toolkit rules explain <id>" for details.`));
+};
+
+const explainRule = async (id: string): Promise<void> => {
+  const catalog = getRuleCatalog(await loadConfig());
+  const entry = catalog.find(candidate => candidate.rule.id.toLowerCase() === id.toLowerCase());
+
+  if (!entry) {
+    const closest = findClosestMatch(id.toUpperCase(), catalog.map(candidate => candidate.rule.id));
+    console.error(chalk.red(`Unknown rule "${id}".${closest ? ` Did you mean ${closest}?` : ''}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const { rule, severity, options, docs } = entry;
+  console.log(chalk.bold(`${rule.id}: ${rule.name}`));
+  console.log(chalk.gray(docs.category));
+  console.log(`\n${rule.description}`);
+  if (docs.rationale) {
+    console.log(`\n${chalk.bold('Why:')} ${docs.rationale}`);
+  }
+  console.log(
+    `\n${chalk.bold('Severity:')} ${colorSeverity(severity)}` +
+    (severity !== rule.severity ? chalk.gray(` (default ${rule.severity})`) : '')
+  );
+  if (Object.keys(options).length > 0) {
+    console.log(`${chalk.bold('Options:')} ${formatRuleOptions(options)}`);
+  }
+  if (docs.good) {
+    console.log(`\n${chalk.green('✔ Passes:')}`);
+    docs.good.split('\n').forEach(line => console.log(`    ${line}`));
+  }
+  if (docs.bad) {
+    console.log(`\n${chalk.red('✖ Fails:')}`);
+    docs.bad.split('\n').forEach(line => console.log(`    ${line}`));
+  }
+};
+
+const writeRuleDocs = async (options: RulesDocsOptions): Promise<void> => {
+  const reference = formatRuleReference(await loadConfig());
+
+  if (!options.output) {
+    process.stdout.write(reference);
+    return;
+  }
+
+  const outputPath = path.resolve(options.output);
+  await fs.outputFile(outputPath, reference, 'utf8');
+  console.log(chalk.green(`Rule reference written to ${path.relative(process.cwd(), outputPath)}`));
+};
+
+// Config errors (unknown rules, missing plugins or presets) end the command
+// with a message instead of a stack trace
+const withErrors = <T extends unknown[]>(action: (...args: T) => Promise<void>) =>
+  async (...args: T): Promise<void> => {
+    try {
+      await action(...args);
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exitCode = 1;
+    }
+  };
+
+export function createRulesCommand(): Command {
+  const cmd = new Command('rules');
+
+  cmd.description('List, explain and document the active SEO rules');
+
+  cmd
+    .command('list')
+    .description('List rules with their configured severity and category')
+    .option('--severity <level>', `Only rules at this severity: ${SEVERITIES.join(', ')}`)
+    .option('--category <name>', 'Only rules whose category contains this text, e.g. readability')
+    .action(withErrors(listRules));
+
+  cmd
+    .command('explain')
+    .description('Show what a rule checks, why, examples and its configured options')
+    .argument('<id>', 'Rule ID, e.g. SEO-012 or acme/no-utilize')
+    .action(withErrors(explainRule));
+
+  cmd
+    .command('docs')
+    .description('Generate a Markdown reference of every active rule, including plugin rules')
+    .option('-o, --output <file>', 'Write the reference to a file instead of stdout')
+    .action(withErrors(writeRuleDocs));
+
+  return cmd;
+}
@@ -2,6 +2,7 @@ import { Command } from 'commander';
 import { FixSuggestionsGenerator, ExecutionPlan } from '../ai/fix-suggestions';
 import { loadContentFiles } from '../utils/content-loader';
 import { loadConfig } from '../utils/config';
+import { DEFAULT_CACHE_LOCATION, LintCache } from '../core/lint-cache';
 import path from 'path';
 import fs from 'fs-extra';
 import chalk from 'chalk';
@@ -14,6 +15,8 @@ interface SuggestionsCommandOptions {
   focus: string;
   format: string;
   preview?: boolean;
+  cache: boolean;
+  cacheLocation: string;
 }
 
 export function createSuggestionsCommand(): Command {
@@ -28,6 +31,8 @@ export function createSuggestionsCommand(): Command {
     .option('--focus <areas>', 'Focus areas (comma-separated): seo,content,structure,technical', 'seo,content,structure')
     .option('--format <type>', 'Output format: markdown, json', 'markdown')
     .option('--preview', 'Preview suggestions without saving to file')
+    .option('--no-cache', 'Lint every file instead of reusing cached results')
+    .option('--cache-location <file>', 'Path to the lint cache file', DEFAULT_CACHE_LOCATION)
     .action(async (contentPath: string, options: SuggestionsCommandOptions) => {
       const config = await loadConfig();
       const spinner = ora('Analyzing content and generating fix suggestions...').start();
@@ -52,7 +57,8 @@ export function createSuggestionsCommand(): Command {
         spinner.text = `Found ${contentFiles.length} content files. Generating suggestions...`;
 
         // Initialize fix suggestions generator
-        const suggestionsGenerator = new FixSuggestionsGenerator();
+        const cache = options.cache ? await LintCache.load(config, options.cacheLocation) : undefined;
+        const suggestionsGenerator = new FixSuggestionsGenerator(config, cache);
 
         // Generate fix suggestions
         const focusAreas = options.focus
@@ -64,6 +70,7 @@ export function createSuggestionsCommand(): Command {
           maxSuggestionsPerFile: Number.isNaN(maxSuggestions) ? 10 : maxSuggestions,
           focusAreas
         });
+        await cache?.save();
 
         spinner.succeed(`Generated execution plan with ${executionPlan.summary.totalIssues} optimization opportunities`);
 
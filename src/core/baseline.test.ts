@@ -0,0 +1,126 @@
+import { SEOLintReport, SEOLintResult } from '../types';
+import { applyBaseline, createBaseline, getFingerprint } from './baseline';
+
+const finding = (overrides: Partial<SEOLintResult> = {}): SEOLintResult => ({
+  rule: 'SEO-010',
+  name: 'Image alt text',
+  severity: 'error',
+  passed: false,
+  message: 'Image is missing alt text',
+  line: 3,
+  ...overrides
+});
+
+const report = (results: SEOLintResult[], file = '/site/content/blog/post.md'): SEOLintReport => ({
+  file,
+  results,
+  summary: { errors: 0, warnings: 0, info: 0, passed: 0, suppressed: 0, baselined: 0 },
+  score: 0,
+  scoreBreakdown: [],
+  unusedSuppressions: [],
+  readability: {} as SEOLintReport['readability']
+});
+
+const content = ['# Post', '', '![](/hero.png)', '', 'Body text.'].join('\n');
+
+describe('getFingerprint', () => {
+  it('hashes the source line, not its number', () => {
+    const moved = ['# Post', '', 'A new intro paragraph.', '', '![](/hero.png)'].join('\n');
+    expect(getFingerprint(finding({ line: 3 }), 'post.md', content))
+      .toBe(getFingerprint(finding({ line: 5 }), 'post.md', moved));
+  });
+
+  it('ignores indentation and repeated whitespace on the line', () => {
+    const reindented = ['# Post', '', '   ![](/hero.png)  ', '', 'Body text.'].join('\n');
+    expect(getFingerprint(finding(), 'post.md', content)).toBe(getFingerprint(finding(), 'post.md', reindented));
+  });
+
+  it('differs by rule and file', () => {
+    const base = getFingerprint(finding(), 'post.md', content);
+    expect(getFingerprint(finding({ rule: 'SEO-011' }), 'post.md', content)).not.toBe(base);
+    expect(getFingerprint(finding(), 'other.md', content)).not.toBe(base);
+  });
+
+  it('falls back to the message for findings without a line', () => {
+    const withoutLine = finding({ line: undefined });
+    expect(getFingerprint(withoutLine, 'post.md', content)).toBe(getFingerprint(withoutLine, 'post.md', ''));
+    expect(getFingerprint(withoutLine, 'post.md', content))
+      .not.toBe(getFingerprint({ ...withoutLine, message: 'Other message' }, 'post.md', content));
+  });
+});
+
+describe('createBaseline', () => {
+  it('records open findings with paths relative to cwd', () => {
+    const baseline = createBaseline([
+      {
+        report: report([
+          finding(),
+          finding({ rule: 'SEO-001', passed: true }),
+          finding({ rule: 'SEO-004', suppressed: true })
+        ]),
+        content
+      }
+    ], '/site');
+
+    expect(baseline.version).toBe(1);
+    expect(baseline.findings).toEqual([
+      {
+        rule: 'SEO-010',
+        file: 'content/blog/post.md',
+        fingerprint: getFingerprint(finding(), 'content/blog/post.md', content),
+        message: 'Image is missing alt text'
+      }
+    ]);
+  });
+
+  it('sorts findings by file and rule', () => {
+    const baseline = createBaseline([
+      { report: report([finding({ rule: 'SEO-011' }), finding()], '/site/b.md'), content },
+      { report: report([finding()], '/site/a.md'), content }
+    ], '/site');
+
+    expect(baseline.findings.map(entry => `${entry.file} ${entry.rule}`))
+      .toEqual(['a.md SEO-010', 'b.md SEO-010', 'b.md SEO-011']);
+  });
+});
+
+describe('applyBaseline', () => {
+  const baseline = createBaseline([{ report: report([finding()]), content }], '/site');
+
+  it('marks known findings as baselined and leaves them out of the counts', () => {
+    const applied = applyBaseline({ report: report([finding()]), content }, baseline, { cwd: '/site' });
+
+    expect(applied.results[0].baselined).toBe(true);
+    expect(applied.summary.errors).toBe(0);
+    expect(applied.summary.baselined).toBe(1);
+    expect(applied.fixedBaselineFindings).toEqual([]);
+  });
+
+  it('still reports a second copy of a known finding', () => {
+    const duplicated = `${content}\n![](/hero.png)`;
+    const applied = applyBaseline(
+      { report: report([finding(), finding({ line: 6 })]), content: duplicated },
+      baseline,
+      { cwd: '/site' }
+    );
+
+    expect(applied.results.map(result => result.baselined)).toEqual([true, undefined]);
+    expect(applied.summary.errors).toBe(1);
+  });
+
+  it('lists baseline entries that no longer occur', () => {
+    const applied = applyBaseline({ report: report([]), content }, baseline, { cwd: '/site' });
+    expect(applied.fixedBaselineFindings).toEqual(baseline.findings);
+  });
+
+  it('ignores entries recorded for other files', () => {
+    const applied = applyBaseline(
+      { report: report([finding()], '/site/content/blog/other.md'), content },
+      baseline,
+      { cwd: '/site' }
+    );
+
+    expect(applied.results[0].baselined).toBeUndefined();
+    expect(applied.fixedBaselineFindings).toEqual([]);
+  });
+});
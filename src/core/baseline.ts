@@ -0,0 +1,93 @@
+// Lint baseline - record existing violations so only new ones fail the build
+
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { LintBaseline, ScoringConfig, SEOLintReport, SEOLintResult } from '../types';
+import { summarizeLintResults } from './seo-rules';
+
+export interface BaselineInput {
+  report: SEOLintReport;
+  // Raw file content, used to fingerprint the offending line
+  content: string;
+}
+
+const toBaselinePath = (file: string, cwd: string): string =>
+  path.relative(cwd, path.resolve(cwd, file)).split(path.sep).join('/');
+
+const isOpenFinding = (result: SEOLintResult): boolean => !result.passed && !result.suppressed;
+
+// Hash the source line rather than its number so findings survive edits
+// elsewhere in the file. Findings without a line fall back to the message.
+export const getFingerprint = (result: SEOLintResult, file: string, content: string): string => {
+  const sourceLine = result.line !== undefined ? content.split(/\r?\n/)[result.line - 1] : undefined;
+  const anchor = sourceLine !== undefined ? sourceLine.trim().replace(/\s+/g, ' ') : result.message;
+  return createHash('sha1').update(`${result.rule}\0${file}\0${anchor}`).digest('hex');
+};
+
+export const createBaseline = (inputs: BaselineInput[], cwd: string = process.cwd()): LintBaseline => {
+  const findings = inputs.flatMap(({ report, content }) => {
+    const file = toBaselinePath(report.file, cwd);
+    return report.results.filter(isOpenFinding).map(result => ({
+      rule: result.rule,
+      file,
+      fingerprint: getFingerprint(result, file, content),
+      message: result.message
+    }));
+  });
+
+  // Stable order keeps baseline diffs readable
+  findings.sort((a, b) =>
+    a.file.localeCompare(b.file) || a.rule.localeCompare(b.rule) || a.fingerprint.localeCompare(b.fingerprint)
+  );
+  return { version: 1, findings };
+};
+
+export const readBaseline = async (baselinePath: string): Promise<LintBaseline> => {
+  if (!(await fs.pathExists(baselinePath))) {
+    throw new Error(`Baseline file not found: ${baselinePath} (create it with --write-baseline)`);
+  }
+
+  const baseline = (await fs.readJson(baselinePath)) as LintBaseline;
+  if (baseline?.version !== 1 || !Array.isArray(baseline.findings)) {
+    throw new Error(`Invalid baseline file: ${baselinePath}`);
+  }
+  return baseline;
+};
+
+export const writeBaseline = async (baselinePath: string, baseline: LintBaseline): Promise<void> => {
+  await fs.outputJson(baselinePath, baseline, { spaces: 2 });
+};
+
+// Mark findings recorded in the baseline and list baseline entries for this
+// file that no longer occur. Each entry absorbs at most one finding, so a
+// second copy of a known violation is still reported as new.
+export const applyBaseline = (
+  { report, content }: BaselineInput,
+  baseline: LintBaseline,
+  options: { cwd?: string; scoring?: ScoringConfig } = {}
+): SEOLintReport => {
+  const { cwd = process.cwd(), scoring } = options;
+  const file = toBaselinePath(report.file, cwd);
+  const remaining = baseline.findings.filter(entry => entry.file === file);
+
+  const results = report.results.map(result => {
+    if (!isOpenFinding(result)) {
+      return result;
+    }
+    const fingerprint = getFingerprint(result, file, content);
+    const index = remaining.findIndex(entry => entry.fingerprint === fingerprint);
+    if (index === -1) {
+      return result;
+    }
+    remaining.splice(index, 1);
+    return { ...result, baselined: true };
+  });
+
+  return {
+    ...report,
+    results,
+    ...summarizeLintResults(results, scoring),
+    fixedBaselineFindings: remaining
+  };
+};
@@ -0,0 +1,105 @@
+import { GTMConfig, SEOLintResult } from '../types';
+import { findCollection, validateFrontmatter } from './collections';
+import { lintContent } from './seo-rules';
+
+const config = (overrides: Partial<GTMConfig>): GTMConfig => overrides as GTMConfig;
+
+const byRule = (results: SEOLintResult[], rule: string): SEOLintResult[] =>
+  results.filter(result => result.rule === rule);
+
+const collections = config({
+  collections: {
+    blog: { pattern: 'content/blog/**/*.md', schema: { required: ['title', 'date'] } },
+    service: {
+      pattern: ['content/service/**/*.md', './content/services/*.md'],
+      schema: { required: ['title', 'summary'] },
+      rules: { 'SEO-006': 'off' }
+    }
+  }
+});
+
+describe('findCollection', () => {
+  it('returns the first collection whose glob matches', () => {
+    expect(findCollection('content/blog/2025-01-01-post.md', collections)?.name).toBe('blog');
+    expect(findCollection('content/services/audit.md', collections)?.name).toBe('service');
+    expect(findCollection('docs/intro.md', collections)).toBeUndefined();
+    expect(findCollection('content/blog/post.md')).toBeUndefined();
+  });
+});
+
+describe('validateFrontmatter', () => {
+  it('checks type, enum, pattern, length and required keys', () => {
+    const violations = validateFrontmatter(
+      { title: 'Hi', category: 'News', readTime: '5 minutes', tags: ['seo', 3] },
+      {
+        required: ['title', 'date'],
+        properties: {
+          title: { type: 'string', minLength: 10 },
+          category: { enum: ['Guides', 'Product'] },
+          readTime: { pattern: '^\\d+ min read$' },
+          tags: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    );
+
+    expect(violations.map(violation => `${violation.path} ${violation.keyword}`)).toEqual([
+      'date required',
+      'title minLength',
+      'category enum',
+      'readTime pattern',
+      'tags[1] type'
+    ]);
+  });
+
+  it('accepts YAML dates and date strings for the date type', () => {
+    expect(validateFrontmatter(new Date('2025-01-01'), { type: 'date' })).toEqual([]);
+    expect(validateFrontmatter('2025-01-01', { type: 'date' })).toEqual([]);
+    expect(validateFrontmatter('last week', { type: 'date' })).toHaveLength(1);
+  });
+});
+
+describe('collection linting', () => {
+  const servicePage = [
+    '---',
+    'title: SEO audits for B2B SaaS teams',
+    '---',
+    '# SEO audits for B2B SaaS teams',
+    '',
+    'We review your site and send a prioritized plan.'
+  ].join('\n');
+  const filePath = 'content/service/seo-audit.md';
+
+  it('reports schema violations on the frontmatter (SEO-007)', () => {
+    const [violation] = byRule(lintContent(servicePage, { filePath, config: collections }), 'SEO-007');
+    expect(violation).toMatchObject({ passed: false, message: '"summary" is required (service collection)' });
+  });
+
+  it('requires blog frontmatter and filenames outside a collection', () => {
+    const results = lintContent(servicePage, { filePath });
+    ['SEO-002', 'SEO-003', 'SEO-005', 'SEO-006'].forEach(rule => {
+      expect(byRule(results, rule)[0]?.passed).toBe(false);
+    });
+  });
+
+  it('lets the collection schema and rules relax the frontmatter rules', () => {
+    const results = lintContent(servicePage, { filePath, config: collections });
+    ['SEO-002', 'SEO-003', 'SEO-005'].forEach(rule => {
+      expect(byRule(results, rule)[0]?.passed).toBe(true);
+    });
+    expect(byRule(results, 'SEO-006')).toEqual([]);
+  });
+
+  it('keeps fields the schema requires', () => {
+    const results = lintContent(servicePage, {
+      filePath,
+      config: config({
+        collections: {
+          service: { pattern: 'content/service/**/*.md', schema: { required: ['title', 'date'] } }
+        }
+      })
+    });
+
+    expect(byRule(results, 'SEO-002')[0]?.passed).toBe(false);
+    expect(byRule(results, 'SEO-003')[0]?.passed).toBe(true);
+  });
+});
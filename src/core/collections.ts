@@ -0,0 +1,138 @@
+// Content collections - match files to the collections declared in
+// gtm.config.js and validate their frontmatter against the collection schema
+
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { ContentCollection, FrontmatterSchema, FrontmatterSchemaType, GTMConfig, ResolvedContentCollection } from '../types';
+
+export interface SchemaViolation {
+  // Path to the offending value, e.g. "category", "tags[2]" or "author.name"
+  path: string;
+  keyword: 'type' | 'enum' | 'pattern' | 'required' | 'minLength' | 'maxLength';
+  message: string;
+}
+
+// First collection whose glob matches the file, relative to the working directory
+export const findCollection = (filePath: string, config?: GTMConfig): ResolvedContentCollection | undefined => {
+  const relativePath = path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/');
+  const entries = Object.entries(config?.collections ?? {}) as Array<[string, ContentCollection]>;
+
+  for (const [name, collection] of entries) {
+    const patterns = Array.isArray(collection.pattern) ? collection.pattern : [collection.pattern];
+    if (patterns.some(pattern => minimatch(relativePath, pattern.replace(/^\.\//, ''), { dot: true }))) {
+      return { name, ...collection };
+    }
+  }
+  return undefined;
+};
+
+const isDateString = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+
+const matchesType = (value: unknown, type: FrontmatterSchemaType): boolean => {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+    case 'integer':
+      return Number.isInteger(value);
+    // gray-matter parses unquoted YAML dates into Date objects
+    case 'date':
+      return (value instanceof Date && !Number.isNaN(value.getTime())) || (typeof value === 'string' && isDateString(value));
+    default:
+      return typeof value === type;
+  }
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value instanceof Date ? 'date' : typeof value;
+};
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const childPath = (parent: string, key: string | number): string =>
+  typeof key === 'number' ? `${parent}[${key}]` : parent ? `${parent}.${key}` : key;
+
+// Validate a value against a JSON-Schema-like subset: type, enum, pattern,
+// minLength/maxLength, required, properties and items. Values with the wrong
+// type are not checked further.
+export const validateFrontmatter = (
+  value: unknown,
+  schema: FrontmatterSchema,
+  valuePath = ''
+): SchemaViolation[] => {
+  const label = valuePath ? `"${valuePath}"` : 'Frontmatter';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{
+        path: valuePath,
+        keyword: 'type',
+        message: `${label} should be ${types.join(' or ')}, got ${describeType(value)}`
+      }];
+    }
+  }
+
+  const violations: SchemaViolation[] = [];
+
+  if (schema.enum && !schema.enum.some(allowed => JSON.stringify(allowed) === JSON.stringify(value))) {
+    violations.push({
+      path: valuePath,
+      keyword: 'enum',
+      message: `${label} is ${JSON.stringify(value)}, expected one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      violations.push({ path: valuePath, keyword: 'pattern', message: `${label} does not match ${schema.pattern}` });
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({
+        path: valuePath,
+        keyword: 'minLength',
+        message: `${label} is ${value.length} characters, minimum ${schema.minLength}`
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({
+        path: valuePath,
+        keyword: 'maxLength',
+        message: `${label} is ${value.length} characters, maximum ${schema.maxLength}`
+      });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const itemSchema = schema.items;
+    value.forEach((item, index) => violations.push(...validateFrontmatter(item, itemSchema, childPath(valuePath, index))));
+  }
+
+  if (matchesType(value, 'object')) {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? [])
+      .filter(key => isMissing(record[key]))
+      .forEach(key => violations.push({
+        path: childPath(valuePath, key),
+        keyword: 'required',
+        message: `"${childPath(valuePath, key)}" is required`
+      }));
+
+    Object.entries(schema.properties ?? {})
+      .filter(([key]) => !isMissing(record[key]))
+      .forEach(([key, propertySchema]) =>
+        violations.push(...validateFrontmatter(record[key], propertySchema, childPath(valuePath, key)))
+      );
+  }
+
+  return violations;
+};
@@ -1,5 +1,6 @@
 // Configuration management
 import { writeFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
 import { GTMConfig } from '../types';
 
 export function saveConfig(config: GTMConfig, path: string = 'gtm.config.js'): void {
@@ -13,8 +14,9 @@ export function loadConfig(path: string = 'gtm.config.js'): GTMConfig | null {
   }
   
   try {
-    delete require.cache[require.resolve(path)];
-    return require(path);
+    const configPath = resolve(path);
+    delete require.cache[configPath];
+    return require(configPath);
   } catch (error) {
     console.error('Failed to load config:', error);
     return null;
@@ -39,7 +41,7 @@ export function getDefaultConfig(): GTMConfig {
     },
     geo: {
       enabled: true,
-      optimizeForAI: true,
+      optimizeForAI: false,
       structuredData: true
     }
   };
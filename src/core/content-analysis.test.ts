@@ -0,0 +1,52 @@
+import { GTMConfig } from '../types';
+import { analyzeContent } from './content-analysis';
+
+const source = [
+  '---',
+  'title: Launch plan',
+  'keywords: launch, pricing',
+  '---',
+  '# Launch plan',
+  '',
+  'Read [our pricing](/pricing), the [docs](https://www.example.com/docs) and [a study](https://research.org/study).',
+  '',
+  '## Steps',
+  '',
+  '![Launch checklist](/images/checklist.png "Checklist")',
+  '',
+  '```js',
+  'const ignored = "code words do not count";',
+  '```'
+].join('\n');
+
+describe('analyzeContent', () => {
+  const config = { seo: { siteUrl: 'https://example.com' } } as GTMConfig;
+  const analysis = analyzeContent(source, { filename: 'content/blog/launch.md', config });
+
+  it('fills every ContentAnalysis field, readability included', () => {
+    expect(analysis).toMatchObject({
+      wordCount: 8,
+      readingTime: 1,
+      keywords: ['launch', 'pricing'],
+      headingStructure: [{ level: 1, text: 'Launch plan' }, { level: 2, text: 'Steps' }],
+      images: [{ src: '/images/checklist.png', alt: 'Launch checklist', title: 'Checklist' }]
+    });
+    expect(analysis.readability.words).toBe(analysis.wordCount);
+    expect(analysis.readability.sections.map(section => section.heading)).toEqual(['Launch plan', 'Steps']);
+  });
+
+  it('marks links to other hosts as external', () => {
+    expect(analysis.links).toEqual([
+      { url: '/pricing', text: 'our pricing', external: false },
+      { url: 'https://www.example.com/docs', text: 'docs', external: false },
+      { url: 'https://research.org/study', text: 'a study', external: true }
+    ]);
+  });
+
+  it('uses the configured keywords when the frontmatter has none', () => {
+    const { keywords } = analyzeContent('# Title\n', {
+      config: { seo: { siteUrl: 'https://example.com', keywords: { primary: ['gtm'] } } } as GTMConfig
+    });
+    expect(keywords).toEqual(['gtm']);
+  });
+});
@@ -0,0 +1,57 @@
+// Content analysis - word count, reading time, outline, links, images and
+// readability of one document, for reports and editor integrations
+
+import matter from 'gray-matter';
+import { ContentAnalysis, GTMConfig } from '../types';
+import { parseMarkdown } from './markdown-ast';
+import { analyzeReadability, estimateReadingTime } from './readability';
+import { resolveLintContext } from './seo-rules';
+
+export interface AnalyzeContentOptions {
+  filename?: string;
+  config?: GTMConfig;
+  // Reading speed for readingTime, as in SEO-005
+  wordsPerMinute?: number;
+}
+
+const toHost = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+};
+
+// Readability is the same analysis SEO-041 and lint reports use
+export const analyzeContent = (rawContent: string, options: AnalyzeContentOptions = {}): ContentAnalysis => {
+  let frontmatter: Record<string, unknown> = {};
+  try {
+    frontmatter = (matter(rawContent).data as Record<string, unknown>) || {};
+  } catch {
+    frontmatter = {};
+  }
+
+  const document = parseMarkdown(rawContent, { filename: options.filename });
+  const readability = analyzeReadability(document);
+  const siteHost = options.config?.seo?.siteUrl ? toHost(options.config.seo.siteUrl) : undefined;
+
+  return {
+    wordCount: readability.words,
+    readingTime: estimateReadingTime(readability.words, options.wordsPerMinute),
+    keywords: resolveLintContext(document, frontmatter, options.config).keywords.primary,
+    headingStructure: document.headings().map(heading => ({
+      level: heading.depth,
+      text: document.textOf(heading).trim()
+    })),
+    links: document.links().map(link => {
+      const host = /^https?:\/\//i.test(link.url) ? toHost(link.url) : undefined;
+      return { url: link.url, text: document.textOf(link).trim(), external: host !== undefined && host !== siteHost };
+    }),
+    images: document.images().map(image => ({
+      src: image.url,
+      alt: image.alt ?? '',
+      ...(image.title ? { title: image.title } : {})
+    })),
+    readability
+  };
+};
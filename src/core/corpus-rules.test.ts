@@ -0,0 +1,89 @@
+import { ContentFile, GTMConfig, SEOLintResult } from '../types';
+import { lintCorpus } from './seo-rules';
+
+const config = (overrides: Partial<GTMConfig>): GTMConfig => overrides as GTMConfig;
+
+const contentFile = (filePath: string, frontmatter: Record<string, string>, body = '# Page\n'): ContentFile => {
+  const yaml = Object.entries(frontmatter).map(([key, value]) => `${key}: ${value}`).join('\n');
+  return {
+    path: filePath,
+    content: `---\n${yaml}\n---\n${body}`,
+    frontmatter,
+    body,
+    lastModified: new Date(0)
+  };
+};
+
+const failures = (results: Map<string, SEOLintResult[]>, file: ContentFile, rule: string): SEOLintResult[] =>
+  (results.get(file.path) ?? []).filter(result => result.rule === rule && !result.passed);
+
+describe('corpus rules', () => {
+  const first = contentFile('content/blog/2025-01-01-pricing.md', {
+    title: 'Pricing Guide',
+    summary: 'How we price the product for small teams.',
+    canonical: 'https://example.com/pricing'
+  });
+  const second = contentFile('content/blog/2025-02-01-pricing-again.md', {
+    title: 'pricing  guide',
+    summary: 'A different summary for the second post.',
+    canonical: 'https://example.com/pricing',
+    slug: 'pricing-guide'
+  });
+  const third = contentFile('content/blog/2025-03-01-other.md', {
+    title: 'Another Post',
+    summary: 'How we price the product for small teams.'
+  });
+
+  const results = lintCorpus([first, second, third]);
+
+  it('reports duplicate titles on every file that shares them, ignoring case and spacing', () => {
+    expect(failures(results, first, 'SEO-070')).toHaveLength(1);
+    expect(failures(results, second, 'SEO-070')[0]).toMatchObject({
+      line: 2,
+      message: expect.stringContaining('2025-01-01-pricing.md')
+    });
+    expect(failures(results, third, 'SEO-070')).toEqual([]);
+  });
+
+  it('reports duplicate summaries, slugs and canonical URLs', () => {
+    expect(failures(results, third, 'SEO-071')).toHaveLength(1);
+    expect(failures(results, first, 'SEO-072')).toHaveLength(1);
+    expect(failures(results, second, 'SEO-073')).toHaveLength(1);
+  });
+
+  it('adds a passed result for each rule a file satisfies', () => {
+    expect(results.get(third.path)?.find(result => result.rule === 'SEO-072')).toMatchObject({
+      passed: true,
+      severity: 'error'
+    });
+  });
+
+  it('skips rules that are turned off', () => {
+    const withoutTitles = lintCorpus([first, second], { config: config({ rules: { 'SEO-070': 'off' } }) });
+    expect(withoutTitles.get(first.path)?.some(result => result.rule === 'SEO-070')).toBe(false);
+  });
+});
+
+describe('SEO-074 internal links', () => {
+  const post = contentFile(
+    'content/blog/2025-01-15-pricing.md',
+    { title: 'Pricing' },
+    '# Pricing\n\nSee [our audit](/services/audit) and [the FAQ](#faq).\n'
+  );
+  const service = contentFile('content/service/audit.md', { title: 'Audit' }, '# Audit\n');
+
+  it('reports links to pages that do not exist and anchors that are missing', () => {
+    const findings = failures(lintCorpus([post]), post, 'SEO-074');
+    expect(findings.map(finding => finding.line)).toEqual([6, 6]);
+  });
+
+  it('resolves links against site files that were not linted', () => {
+    const findings = failures(lintCorpus([post], { siteFiles: [post, service] }), post, 'SEO-074');
+    expect(findings).toHaveLength(1);
+    expect(findings[0].message).toContain('#faq');
+  });
+
+  it('reports findings only for the checked files', () => {
+    expect([...lintCorpus([post], { siteFiles: [service] }).keys()]).toEqual([post.path]);
+  });
+});
@@ -0,0 +1,272 @@
+// Corpus rules - checks that compare content files with each other
+
+import fs from 'fs';
+import path from 'path';
+import { ContentFile, MarkdownDocument, SEOCorpusFinding, SEOCorpusRule, SEOLintLocation } from '../types';
+import { getContentUrl } from '../utils/slug';
+import { buildUrlInventory, findClosestMatch, normalizeUrlPath, resolveInternalLink } from './link-inventory';
+import { getImagePathname, getImageReferences, getPublicDir, ImageReference, resolveImagePath } from './images';
+import { parseMarkdown } from './markdown-ast';
+
+interface DuplicateGroup {
+  value: string;
+  files: ContentFile[];
+}
+
+const normalizeText = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const getString = (frontmatter: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = frontmatter[key];
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+// Group files whose key (after normalizing) is shared with at least one other file
+const findDuplicates = (
+  files: ContentFile[],
+  getKey: (file: ContentFile) => string | undefined,
+  normalize: (value: string) => string = normalizeText
+): DuplicateGroup[] => {
+  const groups = new Map<string, DuplicateGroup>();
+  for (const file of files) {
+    const value = getKey(file);
+    if (value === undefined) {
+      continue;
+    }
+    const key = normalize(value);
+    const group = groups.get(key) ?? { value, files: [] };
+    group.files.push(file);
+    groups.set(key, group);
+  }
+  return [...groups.values()].filter(group => group.files.length > 1);
+};
+
+// Several corpus rules query the same files; parse each one once per load
+const documents = new WeakMap<ContentFile, MarkdownDocument>();
+const parseFile = (file: ContentFile): MarkdownDocument => {
+  let document = documents.get(file);
+  if (!document) {
+    document = parseMarkdown(file.content, { filename: file.path });
+    documents.set(file, document);
+  }
+  return document;
+};
+
+const locateKey = (file: ContentFile, key: string): SEOLintLocation => parseFile(file).locateFrontmatterKey(key);
+
+// Local images of every file with the path they resolve to on disk
+const getLocalImages = (files: ContentFile[], publicDir: string) =>
+  files.flatMap(file =>
+    getImageReferences(parseFile(file)).flatMap(image => {
+      const resolved = resolveImagePath(image.src, file.path, publicDir);
+      return resolved ? [{ file, image, resolved }] : [];
+    })
+  );
+
+const imageFinding = (file: ContentFile, image: ImageReference, message: string, suggestion: string): SEOCorpusFinding => ({
+  file: file.path,
+  passed: false,
+  ...image.location,
+  message,
+  suggestion
+});
+
+const listOthers = (group: DuplicateGroup, file: ContentFile): string =>
+  group.files
+    .filter(other => other !== file)
+    .map(other => path.relative(process.cwd(), other.path) || other.path)
+    .join(', ');
+
+// One finding per file in each duplicate group, pointing at the frontmatter key
+const reportDuplicates = (
+  groups: DuplicateGroup[],
+  key: (file: ContentFile) => string,
+  describe: (file: ContentFile, group: DuplicateGroup, others: string) => { message: string; suggestion: string }
+): SEOCorpusFinding[] =>
+  groups.flatMap(group =>
+    group.files.map(file => ({
+      file: file.path,
+      passed: false,
+      ...locateKey(file, key(file)),
+      ...describe(file, group, listOthers(group, file))
+    }))
+  );
+
+const TITLE_KEYS = ['title'];
+const SUMMARY_KEYS = ['summary', 'description'];
+const CANONICAL_KEYS = ['canonical', 'canonicalUrl'];
+
+const isIgnoredPath = (url: string, ignore: string[]): boolean =>
+  ignore.some(prefix => url === prefix || url.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`));
+
+const firstPresentKey = (file: ContentFile, keys: string[]): string =>
+  keys.find(key => getString(file.frontmatter, [key]) !== undefined) ?? keys[0];
+
+// Image file rules read the filesystem, so they run with the corpus rules:
+// their results are never cached and pick up added or resized images
+const IMAGE_FILE_RULES: SEOCorpusRule[] = [
+  {
+    id: 'SEO-021',
+    name: 'Image Files Exist',
+    description: 'Local images resolve to a file in the public directory or next to the content file',
+    severity: 'error',
+    checkCorpus: (files, { config }) => {
+      const publicDir = getPublicDir(config);
+      return getLocalImages(files, publicDir)
+        .filter(({ resolved }) => !fs.existsSync(resolved))
+        .map(({ file, image, resolved }) => imageFinding(
+          file,
+          image,
+          `Image ${image.src} not found (looked for ${path.relative(process.cwd(), resolved)})`,
+          image.src.startsWith('/')
+            ? `Add the file under ${publicDir}/ or fix the path`
+            : 'Fix the path; relative paths resolve from the content file'
+        ));
+    }
+  },
+  {
+    id: 'SEO-022',
+    name: 'Image File Size',
+    description: 'Local images stay within the size budget',
+    severity: 'warning',
+    defaultOptions: { maxKilobytes: 200 },
+    checkCorpus: (files, { config, options }) =>
+      getLocalImages(files, getPublicDir(config)).flatMap(({ file, image, resolved }) => {
+        const size = fs.existsSync(resolved) ? fs.statSync(resolved).size : 0;
+        if (size <= options.maxKilobytes * 1024) {
+          return [];
+        }
+        return [imageFinding(
+          file,
+          image,
+          `Image ${image.src} is ${Math.round(size / 1024)} KB (budget ${options.maxKilobytes} KB)`,
+          `Compress or resize ${path.basename(getImagePathname(image.src))}, or serve it as WebP/AVIF`
+        )];
+      })
+  }
+];
+
+export const CORPUS_RULES: SEOCorpusRule[] = [
+  {
+    id: 'SEO-070',
+    name: 'Unique Titles',
+    description: 'No two content files share the same title',
+    severity: 'warning',
+    checkCorpus: files =>
+      reportDuplicates(
+        findDuplicates(files, file => getString(file.frontmatter, TITLE_KEYS)),
+        () => 'title',
+        (file, _group, others) => ({
+          message: `Title "${getString(file.frontmatter, TITLE_KEYS)}" is also used by ${others}`,
+          suggestion: 'Give each page a distinct title so search results can tell them apart'
+        })
+      )
+  },
+  {
+    id: 'SEO-071',
+    name: 'Unique Summaries',
+    description: 'No two content files share the same summary (meta description)',
+    severity: 'warning',
+    checkCorpus: files =>
+      reportDuplicates(
+        findDuplicates(files, file => getString(file.frontmatter, SUMMARY_KEYS)),
+        file => firstPresentKey(file, SUMMARY_KEYS),
+        (_file, _group, others) => ({
+          message: `Summary is identical to ${others}`,
+          suggestion: 'Write a summary specific to this page; duplicate meta descriptions are often rewritten by search engines'
+        })
+      )
+  },
+  {
+    id: 'SEO-072',
+    name: 'Unique Slugs',
+    description: 'No two content files resolve to the same URL',
+    severity: 'error',
+    checkCorpus: files =>
+      reportDuplicates(
+        findDuplicates(files, file => getContentUrl(file.path, file.frontmatter), value => value),
+        () => 'title',
+        (_file, group, others) => ({
+          message: `URL ${group.value} collides with ${others}`,
+          suggestion: 'Change the title or filename so each page gets its own URL'
+        })
+      )
+  },
+  {
+    id: 'SEO-073',
+    name: 'Unique Canonical URLs',
+    description: 'No two content files declare the same canonical URL',
+    severity: 'warning',
+    checkCorpus: files =>
+      reportDuplicates(
+        findDuplicates(
+          files,
+          file => getString(file.frontmatter, CANONICAL_KEYS),
+          value => value.trim().replace(/\/+$/, '').toLowerCase()
+        ),
+        file => firstPresentKey(file, CANONICAL_KEYS),
+        (file, _group, others) => ({
+          message: `Canonical URL ${getString(file.frontmatter, CANONICAL_KEYS)} is also declared by ${others}`,
+          suggestion: 'Point the canonical URL at this page unless it is an intentional duplicate'
+        })
+      )
+  },
+  {
+    id: 'SEO-074',
+    name: 'Internal Link Resolution',
+    description: 'Internal links and #anchors resolve to an existing page and heading',
+    severity: 'error',
+    // URL prefixes served by something other than content files (/api, /app, ...)
+    defaultOptions: { ignore: [] },
+    checkCorpus: (files, { config, siteFiles, options }) => {
+      // Links may point at any page on the site, not only the checked files
+      const documents = new Map<string, MarkdownDocument>(siteFiles.map(file => [file.path, parseFile(file)]));
+      const inventory = buildUrlInventory(siteFiles, config, documents);
+      const ignorePrefixes = ((options.ignore ?? []) as string[]).map(prefix => normalizeUrlPath(prefix));
+
+      return files.flatMap(file => {
+        const document = documents.get(file.path) as MarkdownDocument;
+        return document.links().flatMap((link): SEOCorpusFinding[] => {
+          const resolution = resolveInternalLink(link.url, file.path, inventory, config?.seo?.siteUrl);
+          if (!resolution || resolution.status === 'resolved') {
+            return [];
+          }
+
+          const location = document.locate(link);
+          if (resolution.status === 'missing-page') {
+            if (isIgnoredPath(resolution.path, ignorePrefixes)) {
+              return [];
+            }
+            const closest = findClosestMatch(resolution.path, [...inventory.pages.values()].map(page => page.url));
+            return [{
+              file: file.path,
+              passed: false,
+              ...location,
+              message: `Link ${link.url} does not resolve to any page`,
+              suggestion: closest
+                ? `Did you mean ${closest}?`
+                : 'Fix the link, or list the page under content.staticPages in gtm.config.js'
+            }];
+          }
+
+          const { page, anchor } = resolution;
+          const closest = findClosestMatch(anchor, page.anchors ?? []);
+          return [{
+            file: file.path,
+            passed: false,
+            ...location,
+            message: page.file === file.path
+              ? `Anchor #${anchor} does not match any heading in this document`
+              : `Anchor #${anchor} does not match any heading on ${page.url}`,
+            suggestion: closest ? `Did you mean #${closest}?` : 'Link to an existing heading or remove the anchor'
+          }];
+        });
+      });
+    }
+  },
+  ...IMAGE_FILE_RULES
+];
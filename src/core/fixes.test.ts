@@ -0,0 +1,63 @@
+import { SEOLintResult } from '../types';
+import { applyFixes } from './fixes';
+import { lintContent } from './seo-rules';
+
+const finding = (rule: string, range: [number, number], text: string, extra: Partial<SEOLintResult> = {}): SEOLintResult => ({
+  rule,
+  passed: false,
+  severity: 'error',
+  message: rule,
+  fix: { range, text },
+  ...extra
+} as SEOLintResult);
+
+describe('applyFixes', () => {
+  it('applies fixes in offset order', () => {
+    const { content, applied } = applyFixes('one two three', [
+      finding('B', [8, 13], '3'),
+      finding('A', [0, 3], '1')
+    ]);
+    expect(content).toBe('1 two 3');
+    expect(applied.map(result => result.rule)).toEqual(['A', 'B']);
+  });
+
+  it('skips overlapping, passed, suppressed and baselined findings', () => {
+    const { content, applied } = applyFixes('one two three', [
+      finding('A', [0, 7], 'first'),
+      finding('B', [4, 13], 'overlap'),
+      finding('C', [8, 13], 'passed', { passed: true }),
+      finding('D', [8, 13], 'suppressed', { suppressed: true }),
+      finding('E', [8, 13], 'baselined', { baselined: true })
+    ]);
+    expect(content).toBe('first three');
+    expect(applied.map(result => result.rule)).toEqual(['A']);
+  });
+});
+
+describe('SEO-005 read time', () => {
+  const body = Array.from({ length: 450 }, () => 'word').join(' ');
+  const code = Array.from({ length: 400 }, () => 'token').join(' ');
+  const readTime = (content: string) =>
+    lintContent(content, { filePath: 'content/blog/post.md' }).find(result => result.rule === 'SEO-005')!;
+
+  it('computes the read time from prose, not code', () => {
+    const result = readTime(`---\ntitle: Post\nReadtime: "3 min read"\n---\n${body}\n\n\`\`\`\n${code}\n\`\`\`\n`);
+    expect(result.passed).toBe(true);
+  });
+
+  it('flags a declared read time outside the tolerance and fixes it', () => {
+    const content = `---\ntitle: Post\nReadtime: "1 min read"\n---\n${body}\n`;
+    const result = readTime(content);
+
+    expect(result.passed).toBe(false);
+    expect(result.message).toMatch(/450 words at 200 wpm is about 3 min read/);
+    expect(applyFixes(content, [result]).content).toBe(`---\ntitle: Post\nReadtime: "3 min read"\n---\n${body}\n`);
+  });
+
+  it('inserts a missing Readtime', () => {
+    const content = `---\ntitle: Post\n---\n${body}\n`;
+    const fixed = applyFixes(content, [readTime(content)]).content;
+    expect(fixed).toContain('Readtime: "3 min read"');
+    expect(readTime(fixed).passed).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+// Auto-fixes - apply the text edits rules attach to their findings
+
+import { SEOLintFix, SEOLintResult } from '../types';
+
+export interface AppliedFixes {
+  content: string;
+  applied: SEOLintResult[];
+}
+
+// Apply the fixes of reported findings in offset order. A fix that overlaps
+// an earlier one is skipped; linting the fixed content reports it again.
+export const applyFixes = (rawContent: string, results: SEOLintResult[]): AppliedFixes => {
+  const fixable = results
+    .filter((result): result is SEOLintResult & { fix: SEOLintFix } =>
+      !result.passed && !result.suppressed && !result.baselined && result.fix !== undefined
+    )
+    .sort((a, b) => a.fix.range[0] - b.fix.range[0]);
+
+  let content = '';
+  let cursor = 0;
+  const applied: SEOLintResult[] = [];
+
+  fixable.forEach(result => {
+    const [start, end] = result.fix.range;
+    if (start < cursor) {
+      return;
+    }
+    content += rawContent.slice(cursor, start) + result.fix.text;
+    cursor = end;
+    applied.push(result);
+  });
+
+  return { content: content + rawContent.slice(cursor), applied };
+};
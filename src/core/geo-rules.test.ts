@@ -0,0 +1,75 @@
+import { GTMConfig, SEOLintResult } from '../types';
+import { getDefaultConfig } from './config';
+import { lintContent } from './seo-rules';
+
+const geoConfig = (overrides: Partial<GTMConfig> = {}): GTMConfig => ({
+  ...getDefaultConfig(),
+  geo: { enabled: true, optimizeForAI: true, structuredData: false },
+  ...overrides
+});
+
+const filler = Array.from({ length: 320 }, () => 'word').join(' ');
+
+const lintGeo = (body: string, config: GTMConfig = geoConfig(), title = 'Post'): SEOLintResult[] =>
+  lintContent(`---\ntitle: ${title}\n---\n${body}\n`, { filePath: 'content/blog/post.md', config })
+    .filter(result => result.rule >= 'SEO-060' && result.rule <= 'SEO-066');
+
+const failures = (results: SEOLintResult[], rule: string) =>
+  results.filter(result => result.rule === rule && !result.passed);
+
+describe('GEO rules', () => {
+  it('are off in the default config', () => {
+    expect(getDefaultConfig().geo.optimizeForAI).toBe(false);
+    expect(lintGeo('## Intro\n\nIn this post we look at flags.', getDefaultConfig())).toEqual([]);
+  });
+
+  it('SEO-060 flags openings that are headings, filler or too long', () => {
+    expect(failures(lintGeo('## Intro\n\nFlags ship code dark.'), 'SEO-060')[0].message).toMatch(/opens with a heading/);
+    expect(failures(lintGeo('In this post we look at flags.'), 'SEO-060')[0].message).toMatch(/filler \("In this post"\)/);
+    expect(failures(lintGeo(filler), 'SEO-060')[0].message).toMatch(/320 words \(limit 60\)/);
+    expect(failures(lintGeo('Feature flags let you ship code dark.'), 'SEO-060')).toEqual([]);
+  });
+
+  it('SEO-061 wants a question-style H2', () => {
+    expect(failures(lintGeo('Flags ship dark.\n\n## Rollout'), 'SEO-061')).toHaveLength(1);
+    expect(failures(lintGeo('Flags ship dark.\n\n## How do rollouts work?'), 'SEO-061')).toEqual([]);
+  });
+
+  it('SEO-062 looks for a short definition in longer posts', () => {
+    expect(failures(lintGeo(filler), 'SEO-062')[0].message).toBe('No definition sentence found');
+    expect(failures(lintGeo(`A feature flag is a switch for code paths. ${filler}`), 'SEO-062')).toEqual([]);
+  });
+
+  it('SEO-063 wants FAQ question subheadings', () => {
+    expect(failures(lintGeo('Flags ship dark.\n\n## FAQ\n\nSome notes.'), 'SEO-063')[0].message)
+      .toBe('FAQ section has no question subheadings');
+    expect(failures(lintGeo('Flags ship dark.\n\n## FAQ\n\n### Are flags slow?\n\nNo.'), 'SEO-063')).toEqual([]);
+  });
+
+  it('SEO-064 wants a list or table in comparisons', () => {
+    expect(failures(lintGeo('Flags ship dark.\n\n## Flags vs branches\n\nBranches are slower.'), 'SEO-064')).toHaveLength(1);
+    expect(failures(lintGeo('Flags ship dark.\n\n- Flags: fast\n- Branches: slow', geoConfig(), 'Flags vs branches'), 'SEO-064'))
+      .toEqual([]);
+  });
+
+  describe('SEO-065', () => {
+    const ownLinks = `Flags ship dark. ${filler} See [our guide](https://www.example.com/guide) and [docs](https://docs.example.com/flags).`;
+
+    it('does not count links to the seo.siteUrl host as sources', () => {
+      const [finding] = failures(lintGeo(`Flags ship dark. ${filler} See [our guide](https://www.example.com/guide).`), 'SEO-065');
+      expect(finding.message).toBe('0 outbound source link(s) (minimum 1)');
+    });
+
+    it('ignores configured hosts on top of the site host', () => {
+      expect(failures(lintGeo(ownLinks), 'SEO-065')).toEqual([]);
+
+      const config = geoConfig({ rules: { 'SEO-065': ['warning', { ignoreHosts: ['docs.example.com'] }] } });
+      expect(failures(lintGeo(ownLinks, config), 'SEO-065')).toHaveLength(1);
+    });
+  });
+
+  it('SEO-066 wants a concrete number in longer posts', () => {
+    expect(failures(lintGeo(filler), 'SEO-066')).toHaveLength(1);
+    expect(failures(lintGeo(`Rollbacks dropped to 2 minutes. ${filler}`), 'SEO-066')).toEqual([]);
+  });
+});
@@ -0,0 +1,299 @@
+// Generative Engine Optimization (GEO) rules - checks that content is
+// structured to be quoted and cited by AI answer engines. Active when
+// geo.optimizeForAI is set in gtm.config.js.
+
+import type { Content } from 'mdast';
+import { SEOLintRule } from '../types';
+import { countWords, splitSentences } from './readability';
+
+// Body nodes that render nothing: imports/exports, comments and directives
+const NON_CONTENT_NODES = new Set(['html', 'mdxjsEsm', 'mdxFlowExpression']);
+
+const FILLER_OPENING = /^(in this (post|article|guide|tutorial)|have you ever|welcome to|today,? we|let'?s (talk|dive|explore|look)|are you (looking|wondering)|when it comes to)\b/i;
+
+const QUESTION_WORDS = /^(how|what|why|when|where|which|who|can|should|is|are|does|do|will)\b/i;
+
+// "A feature flag is a ...", "Canary releases are the ...", "GEO refers to ..."
+const DEFINITION_SENTENCE = /^[\p{Lu}\p{N}][^.!?]{0,80}?\s(is|are|refers to|means|describes)\s(a|an|the|when|how)\b/u;
+
+// Also used to find Q&A pairs for FAQPage structured data
+export const FAQ_HEADING = /\b(faqs?|frequently asked questions|common questions)\b/i;
+
+const COMPARISON = /\b(vs\.?|versus|compar(e|es|ed|ing|ison)|alternatives?\s+to|pros and cons)(\s|$)/i;
+
+// Percentages, multipliers, money and counted units: "42%", "3x", "$1.2M", "200 ms", "10,000 users"
+const STATISTIC = /([$€£]\s?\d[\d,.]*\s?(k|m|bn?|million|billion)?\b|\b\d[\d,.]*\s?(%|percent\b|x\b|×|ms\b|seconds?\b|minutes?\b|hours?\b|days?\b|weeks?\b|months?\b|years?\b|thousand\b|million\b|billion\b|users\b|customers\b|teams\b|companies\b|times\b))/gi;
+
+export const isQuestion = (text: string): boolean => text.trim().endsWith('?') || QUESTION_WORDS.test(text.trim());
+
+const truncate = (text: string, length = 60): string => {
+  const normalized = text.trim().replace(/\s+/g, ' ');
+  return normalized.length > length ? `${normalized.slice(0, length)}...` : normalized;
+};
+
+// "https://www.Example.com/a" -> "example.com"
+const toHost = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+};
+
+const startOffset = (node: Content): number => node.position?.start.offset ?? 0;
+
+export const GEO_RULES: SEOLintRule[] = [
+  {
+    id: 'SEO-060',
+    name: 'Answer-First Opening',
+    description: 'Body opens with a short paragraph that answers the question directly',
+    severity: 'warning',
+    defaultOptions: { maxWords: 60 },
+    check: (content, frontmatter, filename, context) => {
+      const { document, options } = context;
+      const [opening] = document.body.filter(node => !NON_CONTENT_NODES.has(node.type));
+      if (!opening) {
+        return { passed: true, message: 'No body content' };
+      }
+
+      if (opening.type !== 'paragraph') {
+        return {
+          passed: false,
+          ...document.locate(opening),
+          message: `Content opens with a ${opening.type} instead of an answer paragraph`,
+          suggestion: 'Start with a 1-3 sentence paragraph that answers the main question before the first heading'
+        };
+      }
+
+      const text = document.textOf(opening);
+      const filler = text.trim().match(FILLER_OPENING);
+      if (filler) {
+        return {
+          passed: false,
+          ...document.locate(opening),
+          message: `Opening paragraph starts with filler ("${filler[0]}")`,
+          suggestion: 'Lead with the answer; AI answer engines quote the first sentences that resolve the query'
+        };
+      }
+
+      const words = countWords(text);
+      if (words > options.maxWords) {
+        return {
+          passed: false,
+          ...document.locate(opening),
+          message: `Opening paragraph is ${words} words (limit ${options.maxWords})`,
+          suggestion: 'Put a short, self-contained answer first and move the detail into later paragraphs'
+        };
+      }
+
+      return { passed: true, message: `Answer-first opening validated (${words} words)` };
+    }
+  },
+
+  {
+    id: 'SEO-061',
+    name: 'Question Headings',
+    description: 'Some H2 headings are phrased as the questions readers ask',
+    severity: 'info',
+    defaultOptions: { minQuestions: 1 },
+    check: (content, frontmatter, filename, context) => {
+      const { document, options } = context;
+      const h2Headings = document.headings().filter(heading => heading.depth === 2);
+      if (h2Headings.length === 0) {
+        return { passed: true, message: 'No H2 headings' };
+      }
+
+      const questions = h2Headings.filter(heading => isQuestion(document.textOf(heading)));
+      if (questions.length < options.minQuestions) {
+        return {
+          passed: false,
+          ...document.locate(h2Headings[0]),
+          message: `${questions.length} of ${h2Headings.length} H2 headings are questions (minimum ${options.minQuestions})`,
+          suggestion: 'Rephrase an H2 as the question it answers, e.g. "How do feature flags work?"'
+        };
+      }
+
+      return { passed: true, message: `Question headings validated (${questions.length} of ${h2Headings.length})` };
+    }
+  },
+
+  {
+    id: 'SEO-062',
+    name: 'Concise Definitions',
+    description: 'The main term is defined in one short "X is a ..." sentence',
+    severity: 'info',
+    defaultOptions: { maxWords: 30, minWords: 300 },
+    check: (content, frontmatter, filename, context) => {
+      const { document, options } = context;
+      if (countWords(document.proseText()) < options.minWords) {
+        return { passed: true, message: `Fewer than ${options.minWords} words; definitions not required` };
+      }
+
+      const definitions = document.paragraphs().flatMap(paragraph =>
+        splitSentences(document.textOf(paragraph))
+          .filter(sentence => DEFINITION_SENTENCE.test(sentence.trim()))
+          .map(sentence => ({ paragraph, sentence, words: countWords(sentence) }))
+      );
+
+      if (definitions.some(definition => definition.words <= options.maxWords)) {
+        return { passed: true, message: `Concise definition found (${definitions.length} definition sentences)` };
+      }
+
+      if (definitions.length > 0) {
+        const [first] = definitions;
+        return {
+          passed: false,
+          ...document.locate(first.paragraph),
+          message: `Definition sentence is ${first.words} words (limit ${options.maxWords}): "${truncate(first.sentence)}"`,
+          suggestion: 'Shorten the definition to one sentence that can be quoted on its own'
+        };
+      }
+
+      return {
+        passed: false,
+        ...document.locateBody(),
+        message: 'No definition sentence found',
+        suggestion: 'Define the main term in one sentence, e.g. "A feature flag is a switch that turns code paths on at runtime."'
+      };
+    }
+  },
+
+  {
+    id: 'SEO-063',
+    name: 'FAQ Section',
+    description: 'Long-form content ends with an FAQ section of question subheadings',
+    severity: 'info',
+    defaultOptions: { minWords: 600 },
+    check: (content, frontmatter, filename, context) => {
+      const { document, options } = context;
+      const headings = document.headings();
+      const faq = headings.find(heading => heading.depth === 2 && FAQ_HEADING.test(document.textOf(heading)));
+
+      if (!faq) {
+        const words = countWords(document.proseText());
+        if (words < options.minWords) {
+          return { passed: true, message: `Fewer than ${options.minWords} words; FAQ section not required` };
+        }
+        return {
+          passed: false,
+          ...document.locateBody(),
+          message: `No FAQ section in ${words} words of content`,
+          suggestion: 'Add a "## Frequently asked questions" section with each question as an H3'
+        };
+      }
+
+      // Subheadings between the FAQ heading and the next H2 (or H1)
+      const nextSection = headings.find(heading => heading.depth <= 2 && startOffset(heading) > startOffset(faq));
+      const entries = headings.filter(heading =>
+        heading.depth > 2 &&
+        startOffset(heading) > startOffset(faq) &&
+        (!nextSection || startOffset(heading) < startOffset(nextSection))
+      );
+      const questions = entries.filter(heading => isQuestion(document.textOf(heading)));
+
+      if (questions.length === 0) {
+        return {
+          passed: false,
+          ...document.locate(faq),
+          message: 'FAQ section has no question subheadings',
+          suggestion: 'Give each question its own H3 ending in "?" followed by a short answer'
+        };
+      }
+
+      return { passed: true, message: `FAQ section validated (${questions.length} questions)` };
+    }
+  },
+
+  {
+    id: 'SEO-064',
+    name: 'Structured Comparisons',
+    description: 'Comparison content uses a list or table',
+    severity: 'warning',
+    check: (content, frontmatter, filename, context) => {
+      const { document } = context;
+      const title = typeof frontmatter.title === 'string' ? frontmatter.title : '';
+      const comparisonHeading = document.headings().find(heading => COMPARISON.test(document.textOf(heading)));
+      if (!comparisonHeading && !COMPARISON.test(title)) {
+        return { passed: true, message: 'No comparison content' };
+      }
+
+      const structured = document.select('table').length + document.select('list').length;
+      if (structured === 0) {
+        return {
+          passed: false,
+          ...(comparisonHeading ? document.locate(comparisonHeading) : document.locateFrontmatterKey('title')),
+          message: 'Comparison content has no list or table',
+          suggestion: 'Summarize the comparison in a table (one row per option) or a bulleted list'
+        };
+      }
+
+      return { passed: true, message: `Comparison structure validated (${structured} lists/tables)` };
+    }
+  },
+
+  {
+    id: 'SEO-065',
+    name: 'Cited Sources',
+    description: 'Claims are backed by outbound links to sources',
+    severity: 'warning',
+    // Hosts that are not sources besides the seo.siteUrl host, e.g. a docs subdomain
+    defaultOptions: { minSources: 1, minWords: 300, ignoreHosts: [] },
+    check: (content, frontmatter, filename, context) => {
+      const { document, options } = context;
+      if (countWords(document.proseText()) < options.minWords) {
+        return { passed: true, message: `Fewer than ${options.minWords} words; sources not required` };
+      }
+
+      // Links to the site itself are not sources
+      const ignoredHosts = [
+        ...(options.ignoreHosts as string[]).map(host => host.toLowerCase().replace(/^www\./, '')),
+        ...(context.siteUrl ? [toHost(context.siteUrl)] : [])
+      ];
+      const sources = document.links().filter(link => {
+        if (!/^https?:\/\//i.test(link.url)) {
+          return false;
+        }
+        const host = toHost(link.url);
+        return host !== undefined && !ignoredHosts.includes(host);
+      });
+
+      if (sources.length < options.minSources) {
+        return {
+          passed: false,
+          ...document.locateBody(),
+          message: `${sources.length} outbound source link(s) (minimum ${options.minSources})`,
+          suggestion: 'Link the studies, docs or data behind your claims; answer engines favor content that cites sources'
+        };
+      }
+
+      return { passed: true, message: `Sources validated (${sources.length} outbound links)` };
+    }
+  },
+
+  {
+    id: 'SEO-066',
+    name: 'Concrete Statistics',
+    description: 'Content includes concrete numbers: percentages, amounts, durations or counts',
+    severity: 'info',
+    defaultOptions: { minStatistics: 1, minWords: 300 },
+    check: (content, frontmatter, filename, context) => {
+      const { document, options } = context;
+      const prose = document.proseText();
+      if (countWords(prose) < options.minWords) {
+        return { passed: true, message: `Fewer than ${options.minWords} words; statistics not required` };
+      }
+
+      const statistics = prose.match(STATISTIC) ?? [];
+      if (statistics.length < options.minStatistics) {
+        return {
+          passed: false,
+          ...document.locateBody(),
+          message: `${statistics.length} concrete statistic(s) found (minimum ${options.minStatistics})`,
+          suggestion: 'Back claims with specific numbers, e.g. "cut rollback time by 40%" instead of "much faster"'
+        };
+      }
+
+      return { passed: true, message: `Statistics validated (${statistics.length} found)` };
+    }
+  }
+];
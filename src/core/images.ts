@@ -0,0 +1,118 @@
+// Image references - Markdown images, HTML <img> tags and MDX <img>/<Image>
+// elements, and where their files live on disk
+
+import path from 'path';
+import type { HTML } from 'mdast';
+import { GTMConfig, MarkdownDocument, MarkdownNode, SEOLintLocation } from '../types';
+import { detectFramework, getFrameworkConfig } from '../utils/framework-detector';
+
+export interface ImageReference {
+  src: string;
+  alt?: string;
+  // Attribute present; JSX expressions such as width={800} count as present
+  hasWidth: boolean;
+  hasHeight: boolean;
+  // Markdown images cannot declare dimensions
+  kind: 'markdown' | 'html' | 'jsx';
+  location: SEOLintLocation;
+}
+
+interface MdxJsxAttribute {
+  type: string;
+  name?: string;
+  value?: string | { value: string } | null;
+}
+
+type MdxJsxElement = MarkdownNode & { name: string | null; attributes: MdxJsxAttribute[] };
+
+const JSX_IMAGE_ELEMENTS = new Set(['img', 'Image']);
+
+const HTML_IMG_PATTERN = /<img\b[^>]*>/gi;
+const HTML_ATTRIBUTE_PATTERN = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+)))?/g;
+
+const parseHtmlAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.replace(/^<img\b/i, '').matchAll(HTML_ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+};
+
+const fromHtml = (document: MarkdownDocument, node: HTML): ImageReference[] =>
+  [...node.value.matchAll(HTML_IMG_PATTERN)]
+    .map(match => parseHtmlAttributes(match[0]))
+    .filter(attributes => attributes.src)
+    .map(attributes => ({
+      src: attributes.src,
+      alt: attributes.alt,
+      hasWidth: 'width' in attributes,
+      hasHeight: 'height' in attributes,
+      kind: 'html' as const,
+      location: document.locate(node)
+    }));
+
+const fromJsx = (document: MarkdownDocument, node: MdxJsxElement): ImageReference[] => {
+  if (!node.name || !JSX_IMAGE_ELEMENTS.has(node.name)) {
+    return [];
+  }
+  const attribute = (name: string) => node.attributes.find(item => item.type === 'mdxJsxAttribute' && item.name === name);
+  const src = attribute('src')?.value;
+  const alt = attribute('alt')?.value;
+  // src={heroImage} is resolved at build time; there is no path to check
+  if (typeof src !== 'string') {
+    return [];
+  }
+  return [{
+    src,
+    alt: typeof alt === 'string' ? alt : undefined,
+    // next/image with `fill` sizes itself from its parent
+    hasWidth: Boolean(attribute('width') || attribute('fill')),
+    hasHeight: Boolean(attribute('height') || attribute('fill')),
+    kind: 'jsx',
+    location: document.locate(node)
+  }];
+};
+
+export const getImageReferences = (document: MarkdownDocument): ImageReference[] => [
+  ...document.images().map(image => ({
+    src: image.url,
+    alt: image.alt ?? undefined,
+    hasWidth: false,
+    hasHeight: false,
+    kind: 'markdown' as const,
+    location: document.locate(image)
+  })),
+  ...(document.select('html') as HTML[]).flatMap(node => fromHtml(document, node)),
+  ...['mdxJsxFlowElement', 'mdxJsxTextElement'].flatMap(type =>
+    (document.select(type) as MdxJsxElement[]).flatMap(node => fromJsx(document, node))
+  )
+];
+
+export const isRemoteImage = (src: string): boolean => /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(src.trim());
+
+// Path of the image without query string or fragment
+export const getImagePathname = (src: string): string => {
+  const pathname = src.trim().split(/[?#]/)[0];
+  try {
+    return decodeURI(pathname);
+  } catch {
+    return pathname;
+  }
+};
+
+// Public directory of the site's framework (public/ for Next.js, static/ for Gatsby, ...)
+export const getPublicDir = (config?: GTMConfig): string =>
+  getFrameworkConfig(config?.framework && config.framework !== 'custom' ? config.framework : detectFramework() ?? 'nextjs').publicDir;
+
+// File on disk for a local image: root-relative paths are served from the
+// public directory, other paths are relative to the content file.
+// Returns undefined for remote and data: URLs.
+export const resolveImagePath = (src: string, filePath: string, publicDir: string): string | undefined => {
+  if (isRemoteImage(src)) {
+    return undefined;
+  }
+  const pathname = getImagePathname(src);
+  return pathname.startsWith('/')
+    ? path.resolve(publicDir, `.${pathname}`)
+    : path.resolve(path.dirname(filePath), pathname);
+};
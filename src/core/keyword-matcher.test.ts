@@ -0,0 +1,71 @@
+import { createKeywordMatcher, stemWord, tokenizeWords } from './keyword-matcher';
+
+describe('tokenizeWords', () => {
+  it('splits on hyphens and punctuation and keeps possessives', () => {
+    expect(tokenizeWords("The team's product-led plan, v2!").map(token => token.word))
+      .toEqual(['The', "team's", 'product', 'led', 'plan', 'v2']);
+  });
+
+  it('records each word offset', () => {
+    expect(tokenizeWords('a  bc')).toEqual([{ word: 'a', index: 0 }, { word: 'bc', index: 3 }]);
+  });
+});
+
+describe('stemWord', () => {
+  it.each([
+    ['flags', 'flag'],
+    ['companies', 'company'],
+    ['boxes', 'box'],
+    ['classes', 'class'],
+    ["Team's", 'team'],
+    ['status', 'status'],
+    ['analysis', 'analysis'],
+    ['bus', 'bus']
+  ])('stems %s to %s', (word, stem) => {
+    expect(stemWord(word)).toBe(stem);
+  });
+});
+
+describe('createKeywordMatcher', () => {
+  it('matches whole words case-insensitively', () => {
+    const matcher = createKeywordMatcher();
+    expect(matcher.find('SEO tips and seo tools, not seotools', 'seo')).toEqual([
+      { match: 'SEO', index: 0 },
+      { match: 'seo', index: 13 }
+    ]);
+  });
+
+  it('matches plurals and hyphenated forms of multi-word keywords', () => {
+    const matcher = createKeywordMatcher();
+    expect(matcher.find('Ship feature-flags safely', 'feature flag')).toEqual([{ match: 'feature-flags', index: 5 }]);
+  });
+
+  it('only matches exact words when stemming is off', () => {
+    const matcher = createKeywordMatcher({ stemming: false });
+    expect(matcher.count('feature flags and a feature flag', 'feature flag')).toBe(1);
+  });
+
+  it('applies synonyms in both directions', () => {
+    const matcher = createKeywordMatcher({ synonyms: { 'go-to-market': ['GTM'] } });
+    expect(matcher.contains('Our GTM motion', 'go-to-market')).toBe(true);
+    expect(matcher.contains('A go to market plan', 'gtm')).toBe(true);
+    expect(matcher.contains('A market plan', 'gtm')).toBe(false);
+  });
+
+  it('normalizes variant groups to their first word', () => {
+    const matcher = createKeywordMatcher({ variants: [['analysis', 'analyses']] });
+    expect(matcher.normalize('Analyses')).toBe('analysis');
+    expect(matcher.count('One analysis, two analyses', 'analysis')).toBe(2);
+  });
+
+  it('prefers the longest form and does not count overlapping matches', () => {
+    const matcher = createKeywordMatcher({ synonyms: { 'feature flag rollout': ['feature flag'] } });
+    expect(matcher.find('a feature flag rollout', 'feature flag')).toEqual([
+      { match: 'feature flag rollout', index: 2 }
+    ]);
+  });
+
+  it('finds nothing for an empty keyword', () => {
+    expect(createKeywordMatcher().find('Any text', '  ')).toEqual([]);
+  });
+});
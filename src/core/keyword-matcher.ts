@@ -0,0 +1,106 @@
+// Keyword matching - whole-word, case-insensitive matches with light English
+// stemming, synonyms and variant groups, shared by the keyword rules and
+// keyword research
+
+import { KeywordMatch, KeywordMatcher, SEOKeywordConfig } from '../types';
+
+export type KeywordMatcherOptions = Pick<SEOKeywordConfig, 'synonyms' | 'variants' | 'stemming'>;
+
+interface WordToken {
+  word: string;
+  index: number;
+}
+
+// Letters and digits, with an optional possessive ("team's"). Hyphens and
+// other punctuation separate words, so "product-led" matches "product led".
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+
+export const tokenizeWords = (text: string): WordToken[] =>
+  [...text.matchAll(WORD_PATTERN)].map(match => ({ word: match[0], index: match.index ?? 0 }));
+
+// Light stemming: possessives and regular plurals only ("flags" -> "flag",
+// "companies" -> "company", "boxes" -> "box"). Irregular forms belong in
+// variant groups.
+export const stemWord = (word: string): string => {
+  const lower = word.toLowerCase().replace(/['’]s$/, '').replace(/['’]/g, '');
+  if (lower.length <= 3) {
+    return lower;
+  }
+  if (/ies$/.test(lower) && lower.length > 4) {
+    return `${lower.slice(0, -3)}y`;
+  }
+  if (/(sses|xes|ches|shes|zzes)$/.test(lower)) {
+    return lower.slice(0, -2);
+  }
+  if (/s$/.test(lower) && !/(ss|us|is)$/.test(lower)) {
+    return lower.slice(0, -1);
+  }
+  return lower;
+};
+
+export const createKeywordMatcher = (options: KeywordMatcherOptions = {}): KeywordMatcher => {
+  const stemming = options.stemming ?? true;
+  const baseForm = (word: string): string => (stemming ? stemWord(word) : word.toLowerCase());
+
+  // Every member of a variant group normalizes to the group's first word
+  const variantRoots = new Map<string, string>();
+  (options.variants ?? []).forEach(group => {
+    const [root] = group.map(baseForm);
+    group.forEach(word => variantRoots.set(baseForm(word), root));
+  });
+  const normalize = (word: string): string => {
+    const base = baseForm(word);
+    return variantRoots.get(base) ?? base;
+  };
+
+  // Synonyms apply in both directions: a keyword matches its synonyms, and a
+  // synonym listed as a keyword matches the keyword it belongs to
+  const synonymsOf = (keyword: string): string[] => {
+    const key = keyword.trim().toLowerCase();
+    return Object.entries(options.synonyms ?? {}).flatMap(([term, synonyms]) => {
+      const group = [term, ...synonyms];
+      return group.some(entry => entry.trim().toLowerCase() === key) ? group : [];
+    });
+  };
+
+  const getForms = (keyword: string): string[][] =>
+    [keyword, ...synonymsOf(keyword)]
+      .map(form => tokenizeWords(form).map(token => normalize(token.word)))
+      .filter(form => form.length > 0)
+      // Longest form first, so "feature flag rollout" wins over "feature flag"
+      .sort((a, b) => b.length - a.length);
+
+  const find = (text: string, keyword: string): KeywordMatch[] => {
+    const forms = getForms(keyword);
+    if (forms.length === 0) {
+      return [];
+    }
+
+    const tokens = tokenizeWords(text);
+    const normalized = tokens.map(token => normalize(token.word));
+    const matches: KeywordMatch[] = [];
+
+    for (let position = 0; position < tokens.length; position += 1) {
+      const form = forms.find(candidate =>
+        candidate.every((word, offset) => normalized[position + offset] === word)
+      );
+      if (!form) {
+        continue;
+      }
+      const first = tokens[position];
+      const last = tokens[position + form.length - 1];
+      const end = last.index + last.word.length;
+      matches.push({ match: text.slice(first.index, end), index: first.index });
+      position += form.length - 1;
+    }
+
+    return matches;
+  };
+
+  return {
+    find,
+    count: (text, keyword) => find(text, keyword).length,
+    contains: (text, keyword) => find(text, keyword).length > 0,
+    normalize
+  };
+};
@@ -0,0 +1,35 @@
+import { KeywordsResearchTool } from './keywords-research';
+
+describe('KeywordsResearchTool.extractKeywordsFromContent', () => {
+  const content = 'Analysis first. Every analysis and both analyses need flags; flags beat one flag. Colour or color?';
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    // No GSC credentials in tests
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('counts regular plural forms as one word', async () => {
+    const tool = new KeywordsResearchTool({ siteUrl: 'https://example.com' });
+    const keywords = await tool.extractKeywordsFromContent(content);
+
+    expect(keywords[0]).toBe('flags');
+    expect(keywords).toEqual(expect.arrayContaining(['analysis', 'analyses', 'colour', 'color']));
+  });
+
+  it('groups words by the configured seo.keywords variants', async () => {
+    const tool = new KeywordsResearchTool({
+      siteUrl: 'https://example.com',
+      keywords: { variants: [['analysis', 'analyses'], ['colour', 'color']] }
+    });
+    const keywords = await tool.extractKeywordsFromContent(content);
+
+    expect(keywords.slice(0, 2)).toEqual(['analysis', 'flags']);
+    expect(keywords).not.toContain('analyses');
+    expect(keywords.filter(word => word === 'colour' || word === 'color')).toHaveLength(1);
+  });
+});
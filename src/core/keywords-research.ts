@@ -1,6 +1,8 @@
 // Keywords Research Tool with Google Search Console Integration
 
 import { google, searchconsole_v1 } from 'googleapis';
+import { SEOKeywordConfig } from '../types';
+import { createKeywordMatcher, tokenizeWords } from './keyword-matcher';
 
 export interface KeywordData {
   keyword: string;
@@ -38,6 +40,9 @@ export interface KeywordResearchConfig {
   siteUrl: string;
   aiAssistantKey?: string;
   serpApiKey?: string;
+  // seo.keywords from gtm.config.js; its synonyms and variants group words
+  // in extractKeywordsFromContent the same way the lint rules match them
+  keywords?: SEOKeywordConfig;
 }
 
 export class KeywordsResearchTool {
@@ -141,22 +146,25 @@ export class KeywordsResearchTool {
   // Generate seed keywords from content
   async extractKeywordsFromContent(content: string): Promise<string[]> {
     // Simple keyword extraction - in production you'd use NLP libraries
-    const words = content.toLowerCase()
-      .replace(/[^a-z\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 3);
+    const matcher = createKeywordMatcher(this.config.keywords);
+    const words = tokenizeWords(content)
+      .map(token => token.word.toLowerCase().replace(/['’]s$/, ''))
+      .filter(word => /^\p{L}+$/u.test(word) && word.length > 3);
     
-    // Count word frequency
-    const wordCount: Record<string, number> = {};
+    // Count word frequency, with plural forms and configured variants counted as one word
+    const wordCount = new Map<string, { count: number; forms: Map<string, number> }>();
     words.forEach(word => {
-      wordCount[word] = (wordCount[word] || 0) + 1;
+      const entry = wordCount.get(matcher.normalize(word)) ?? { count: 0, forms: new Map<string, number>() };
+      entry.count += 1;
+      entry.forms.set(word, (entry.forms.get(word) ?? 0) + 1);
+      wordCount.set(matcher.normalize(word), entry);
     });
     
-    // Get most frequent words
-    return Object.entries(wordCount)
-      .sort(([,a], [,b]) => b - a)
+    // Get most frequent words, each in its most common form
+    return [...wordCount.values()]
+      .sort((a, b) => b.count - a.count)
       .slice(0, 20)
-      .map(([word]) => word);
+      .map(({ forms }) => [...forms.entries()].sort(([, a], [, b]) => b - a)[0][0]);
   }
 
   // Find content gaps by analyzing competitors
@@ -396,6 +404,7 @@ export interface ResearchKeywordsOptions {
   gscCredentials?: KeywordResearchConfig['gscCredentials'];
   aiAssistantKey?: string;
   serpApiKey?: string;
+  keywords?: SEOKeywordConfig;
 }
 
 export async function researchKeywords(
@@ -416,7 +425,8 @@ export async function researchKeywords(
       siteUrl: config.siteUrl || 'https://example.com',
       gscCredentials: config.gscCredentials,
       aiAssistantKey: config.aiAssistantKey,
-      serpApiKey: config.serpApiKey
+      serpApiKey: config.serpApiKey,
+      keywords: config.keywords
     });
 
     return tool.researchKeywordsWithAI(topicOrOptions, targetAudience);
@@ -429,7 +439,8 @@ export async function researchKeywords(
     siteUrl,
     gscCredentials,
     aiAssistantKey,
-    serpApiKey
+    serpApiKey,
+    keywords
   } = topicOrOptions;
 
   const derivedTopic =
@@ -440,7 +451,8 @@ export async function researchKeywords(
     siteUrl: siteUrl || config.siteUrl || 'https://example.com',
     gscCredentials: gscCredentials || config.gscCredentials,
     aiAssistantKey: aiAssistantKey || config.aiAssistantKey,
-    serpApiKey: serpApiKey || config.serpApiKey
+    serpApiKey: serpApiKey || config.serpApiKey,
+    keywords: keywords || config.keywords
   });
 
   return tool.researchKeywordsWithAI(derivedTopic, derivedAudience);
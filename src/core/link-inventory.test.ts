@@ -0,0 +1,111 @@
+import path from 'path';
+import { ContentFile, GTMConfig } from '../types';
+import {
+  buildUrlInventory,
+  findClosestMatch,
+  getHeadingAnchors,
+  normalizeUrlPath,
+  resolveInternalLink
+} from './link-inventory';
+import { parseMarkdown } from './markdown-ast';
+
+const contentFile = (filePath: string, frontmatter: Record<string, unknown>, body: string): ContentFile => ({
+  path: filePath,
+  content: body,
+  frontmatter,
+  body,
+  lastModified: new Date(0)
+});
+
+const post = contentFile(
+  'content/blog/2025-01-15-launch-plan.md',
+  { title: 'Launch Plan' },
+  '# Launch Plan\n\n## Pricing\n\n## FAQ\n\n## FAQ\n'
+);
+const service = contentFile('content/service/audit.md', { slug: 'seo-audit' }, '# SEO Audit\n');
+
+describe('normalizeUrlPath', () => {
+  it.each([
+    ['/blog/post/', '/blog/post'],
+    ['/blog/post.html', '/blog/post'],
+    ['/blog/index', '/blog'],
+    ['/blog/post?ref=nav#intro', '/blog/post'],
+    ['/blog/caf%C3%A9', '/blog/café'],
+    ['/', '/'],
+    ['', '/']
+  ])('normalizes %s to %s', (url, expected) => {
+    expect(normalizeUrlPath(url)).toBe(expected);
+  });
+});
+
+describe('getHeadingAnchors', () => {
+  it('numbers repeated headings like GitHub', () => {
+    const anchors = getHeadingAnchors(parseMarkdown(post.content));
+    expect([...anchors]).toEqual(['launch-plan', 'pricing', 'faq', 'faq-1']);
+  });
+});
+
+describe('buildUrlInventory', () => {
+  const inventory = buildUrlInventory([post, service], { content: { staticPages: ['/', '/pricing'] } } as GTMConfig);
+
+  it('lists static pages, section pages and content pages', () => {
+    expect([...inventory.pages.keys()].sort()).toEqual([
+      '/',
+      '/blog',
+      '/blog/launch-plan',
+      '/pricing',
+      '/services',
+      '/services/seo-audit'
+    ]);
+  });
+
+  it('indexes content pages by file', () => {
+    expect(inventory.byFile.size).toBe(2);
+    expect([...inventory.byFile.values()].map(page => page.url)).toEqual(['/blog/launch-plan', '/services/seo-audit']);
+  });
+});
+
+describe('resolveInternalLink', () => {
+  const inventory = buildUrlInventory([post, service]);
+  const resolve = (url: string) => resolveInternalLink(url, post.path, inventory, 'https://example.com');
+
+  it('resolves absolute, relative and site URL links', () => {
+    expect(resolve('/services/seo-audit')).toMatchObject({ status: 'resolved', page: { url: '/services/seo-audit' } });
+    expect(resolve('../services/seo-audit/')).toMatchObject({ status: 'resolved' });
+    expect(resolve('https://example.com/blog/launch-plan')).toMatchObject({ status: 'resolved' });
+    expect(resolve('../service/audit.md')).toMatchObject({ status: 'resolved', page: { url: '/services/seo-audit' } });
+  });
+
+  it('checks heading anchors, on the same page too', () => {
+    expect(resolve('#pricing')).toMatchObject({ status: 'resolved' });
+    expect(resolve('/blog/launch-plan#faq-1')).toMatchObject({ status: 'resolved' });
+    expect(resolve('#pricng')).toEqual({
+      status: 'missing-anchor',
+      page: inventory.byFile.get(path.resolve(post.path)),
+      anchor: 'pricng'
+    });
+  });
+
+  it('reports missing pages with the normalized path', () => {
+    expect(resolve('/blog/launch-plans/')).toEqual({ status: 'missing-page', path: '/blog/launch-plans' });
+    expect(resolve('./missing.md')).toEqual({ status: 'missing-page', path: './missing.md' });
+  });
+
+  it('ignores external links, assets and bare fragments', () => {
+    expect(resolve('https://other.com/blog/launch-plan')).toBeUndefined();
+    expect(resolve('mailto:team@example.com')).toBeUndefined();
+    expect(resolve('//cdn.example.com/app.js')).toBeUndefined();
+    expect(resolve('/images/hero.png')).toBeUndefined();
+    expect(resolve('#')).toBeUndefined();
+  });
+});
+
+describe('findClosestMatch', () => {
+  it('suggests the closest candidate within the typo distance', () => {
+    expect(findClosestMatch('/blog/lanch-plan', ['/blog/launch-plan', '/blog', '/services'])).toBe('/blog/launch-plan');
+  });
+
+  it('returns undefined when nothing is close', () => {
+    expect(findClosestMatch('/contact', ['/blog/launch-plan'])).toBeUndefined();
+  });
+});
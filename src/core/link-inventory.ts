@@ -0,0 +1,167 @@
+// Internal link resolution - the site's URL inventory and lookups against it
+
+import path from 'path';
+import { ContentFile, GTMConfig, MarkdownDocument } from '../types';
+import { DEFAULT_STATIC_PAGES, generateHeadingId, getContentUrl, getContentUrlPrefix } from '../utils/slug';
+import { parseMarkdown } from './markdown-ast';
+
+export interface UrlInventoryPage {
+  url: string;
+  // Content file behind the URL; undefined for static and section pages
+  file?: string;
+  // Heading anchors; undefined when the page's headings are unknown
+  anchors?: Set<string>;
+}
+
+export interface UrlInventory {
+  // Keyed by normalized URL path
+  pages: Map<string, UrlInventoryPage>;
+  // Keyed by resolved ContentFile.path
+  byFile: Map<string, UrlInventoryPage>;
+}
+
+export type InternalLinkResolution =
+  | { status: 'resolved'; page: UrlInventoryPage }
+  | { status: 'missing-page'; path: string }
+  | { status: 'missing-anchor'; page: UrlInventoryPage; anchor: string };
+
+const PAGE_EXTENSIONS = new Set(['', '.html', '.htm', '.md', '.mdx']);
+
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Drop query, fragment, trailing slash, .html and /index so equivalent links compare equal
+export const normalizeUrlPath = (url: string): string => {
+  const normalized = decode(url.split(/[?#]/)[0])
+    .replace(/\.html?$/, '')
+    .replace(/\/index$/, '')
+    .replace(/\/+$/, '');
+  return normalized === '' ? '/' : normalized;
+};
+
+// Heading ids in document order; repeated headings get -1, -2, ... like GitHub
+export const getHeadingAnchors = (document: MarkdownDocument): Set<string> => {
+  const anchors = new Set<string>();
+  const seen = new Map<string, number>();
+  document.headings().forEach(heading => {
+    const id = generateHeadingId(document.textOf(heading));
+    const count = seen.get(id) ?? 0;
+    seen.set(id, count + 1);
+    anchors.add(count === 0 ? id : `${id}-${count}`);
+  });
+  return anchors;
+};
+
+// Every URL the site serves: static pages from config, section index pages
+// and one page per content file. Pass already parsed documents to avoid
+// parsing files twice.
+export const buildUrlInventory = (
+  files: ContentFile[],
+  config?: GTMConfig,
+  documents: Map<string, MarkdownDocument> = new Map()
+): UrlInventory => {
+  const pages = new Map<string, UrlInventoryPage>();
+  const byFile = new Map<string, UrlInventoryPage>();
+  const addPage = (page: UrlInventoryPage) => pages.set(normalizeUrlPath(page.url), page);
+
+  (config?.content?.staticPages ?? DEFAULT_STATIC_PAGES).forEach(url => addPage({ url }));
+  files.forEach(file => addPage({ url: getContentUrlPrefix(file.path) }));
+
+  files.forEach(file => {
+    const document = documents.get(file.path) ?? parseMarkdown(file.content, { filename: file.path });
+    const page: UrlInventoryPage = {
+      url: getContentUrl(file.path, file.frontmatter),
+      file: file.path,
+      anchors: getHeadingAnchors(document)
+    };
+    addPage(page);
+    byFile.set(path.resolve(file.path), page);
+  });
+
+  return { pages, byFile };
+};
+
+const checkAnchor = (page: UrlInventoryPage, fragment: string): InternalLinkResolution => {
+  const anchor = decode(fragment);
+  if (!anchor || !page.anchors || page.anchors.has(anchor) || page.anchors.has(anchor.toLowerCase())) {
+    return { status: 'resolved', page };
+  }
+  return { status: 'missing-anchor', page, anchor };
+};
+
+// Resolve a link found in fromFile. Returns undefined for links that are not
+// internal pages: other hosts, mailto:, assets and bare #.
+export const resolveInternalLink = (
+  url: string,
+  fromFile: string,
+  inventory: UrlInventory,
+  siteUrl?: string
+): InternalLinkResolution | undefined => {
+  let target = url.trim();
+
+  const site = siteUrl?.replace(/\/+$/, '');
+  if (site && target.startsWith(site) && /^([/?#]|$)/.test(target.slice(site.length))) {
+    target = target.slice(site.length) || '/';
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('//')) {
+    return undefined;
+  }
+
+  const hashIndex = target.indexOf('#');
+  const pathPart = (hashIndex === -1 ? target : target.slice(0, hashIndex)).split('?')[0];
+  const fragment = hashIndex === -1 ? '' : target.slice(hashIndex + 1);
+  const fromPage = inventory.byFile.get(path.resolve(fromFile));
+
+  if (pathPart === '') {
+    return fragment && fromPage ? checkAnchor(fromPage, fragment) : undefined;
+  }
+
+  const extension = path.posix.extname(pathPart).toLowerCase();
+  if (!PAGE_EXTENSIONS.has(extension)) {
+    return undefined;
+  }
+
+  // Relative links to source files: [Next post](./2025-01-16-next.md)
+  if (!pathPart.startsWith('/') && (extension === '.md' || extension === '.mdx')) {
+    const page = inventory.byFile.get(path.resolve(path.dirname(fromFile), decode(pathPart)));
+    return page ? checkAnchor(page, fragment) : { status: 'missing-page', path: pathPart };
+  }
+
+  const absolutePath = pathPart.startsWith('/')
+    ? pathPart
+    : path.posix.resolve(path.posix.dirname(fromPage?.url ?? '/'), pathPart);
+  const page = inventory.pages.get(normalizeUrlPath(absolutePath));
+  return page ? checkAnchor(page, fragment) : { status: 'missing-page', path: normalizeUrlPath(absolutePath) };
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Closest candidate by edit distance, or undefined when nothing is close
+// enough to be a likely typo
+export const findClosestMatch = (target: string, candidates: Iterable<string>): string | undefined => {
+  const maxDistance = Math.max(2, Math.floor(target.length * 0.4));
+  let best: { value: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = levenshtein(target, candidate);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { value: candidate, distance };
+    }
+  }
+  return best?.value;
+};
@@ -0,0 +1,109 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GTMConfig, ReadabilityAnalysis } from '../types';
+import { LintCache } from './lint-cache';
+import { resolvePresets } from './presets';
+
+const config = (overrides: Partial<GTMConfig>): GTMConfig => overrides as GTMConfig;
+
+const cached = {
+  results: [{ rule: 'SEO-001', name: 'Title', severity: 'error' as const, passed: true, message: 'Title validated' }],
+  unusedSuppressions: [],
+  readability: { paragraphs: 1 } as ReadabilityAnalysis
+};
+
+describe('LintCache', () => {
+  const originalCwd = process.cwd();
+  let dir: string;
+
+  // Write an entry for post.md under the config, then report whether a fresh load still has it
+  const survivesReload = async (before: GTMConfig, after: GTMConfig = before, change?: () => Promise<void>) => {
+    const cache = await LintCache.load(before);
+    cache.set('post.md', '# Post', cached);
+    await cache.save();
+    await change?.();
+    return (await LintCache.load(after)).get('post.md', '# Post') !== undefined;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-cache-')));
+    process.chdir(dir);
+    await fs.outputFile('post.md', '# Post');
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.remove(dir);
+  });
+
+  it('returns entries only while the content is unchanged', async () => {
+    const cache = await LintCache.load();
+    cache.set('post.md', '# Post', cached);
+
+    expect(cache.get(path.join(dir, 'post.md'), '# Post')).toEqual(cached);
+    expect(cache.get('post.md', '# Post edited')).toBeUndefined();
+  });
+
+  it('treats entries without readability as misses', async () => {
+    const cache = await LintCache.load();
+    cache.set('post.md', '# Post', { ...cached, readability: undefined as unknown as ReadabilityAnalysis });
+    expect(cache.get('post.md', '# Post')).toBeUndefined();
+  });
+
+  it('persists entries and drops deleted files on save', async () => {
+    expect(await survivesReload(config({}))).toBe(true);
+
+    const cache = await LintCache.load();
+    await fs.remove('post.md');
+    await cache.save();
+    expect((await fs.readJson('.gtm/cache/lint.json')).files).toEqual({});
+  });
+
+  it('starts empty when the cache file is unreadable', async () => {
+    await fs.outputFile('.gtm/cache/lint.json', '{ not json');
+    expect((await LintCache.load()).get('post.md', '# Post')).toBeUndefined();
+  });
+
+  it('is invalidated by config changes, including inline plugin source', async () => {
+    expect(await survivesReload(config({ rules: { 'SEO-001': 'error' } }), config({ rules: { 'SEO-001': 'warning' } })))
+      .toBe(false);
+
+    const plugin = (message: string) => config({
+      plugins: [{ name: 'inline', rules: [{ id: 'X-1', name: 'X', description: message, severity: 'info', check: () => ({ passed: true, message }) }] }]
+    });
+    expect(await survivesReload(plugin('one'), plugin('two'))).toBe(false);
+  });
+
+  it('is invalidated when a local plugin file changes', async () => {
+    await fs.outputFile('rules/house.js', 'module.exports = { rules: [] };');
+    const withPlugin = config({ plugins: ['./rules/house.js'] });
+
+    expect(await survivesReload(withPlugin)).toBe(true);
+    expect(await survivesReload(withPlugin, withPlugin, () =>
+      fs.outputFile('rules/house.js', 'module.exports = { rules: [], name: "house" };')
+    )).toBe(false);
+  });
+
+  it('is invalidated when a plugin package version changes', async () => {
+    const manifest = (version: string) =>
+      fs.outputJson('node_modules/gtm-toolkit-plugin-acme/package.json', { name: 'gtm-toolkit-plugin-acme', version });
+    await manifest('1.0.0');
+    await fs.outputFile('node_modules/gtm-toolkit-plugin-acme/index.js', 'module.exports = { rules: [] };');
+    const withPlugin = config({ plugins: ['acme'] });
+
+    expect(await survivesReload(withPlugin, withPlugin, () => manifest('1.0.0'))).toBe(true);
+    expect(await survivesReload(withPlugin, withPlugin, () => manifest('1.1.0'))).toBe(false);
+  });
+
+  it('is invalidated when a preset file changes', async () => {
+    await fs.outputFile('preset.js', "module.exports = { rules: { 'SEO-001': 'warning' } };");
+    const resolve = () => resolvePresets(config({ extends: './preset.js' }), dir);
+
+    expect(await survivesReload(resolve(), resolve())).toBe(true);
+    const before = resolve();
+    expect(await survivesReload(before, resolve(), () =>
+      fs.outputFile('preset.js', "module.exports = { rules: { 'SEO-001': 'warning' } }; // edited")
+    )).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+// Persistent lint cache - reuse results for files whose content, rule set,
+// config and plugin or preset modules have not changed since the last run
+
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { GTMConfig, ReadabilityAnalysis, SEOLintResult, SEOLintUnusedSuppression } from '../types';
+import { resolveToolkitModule } from './plugins';
+import { getPresetModules } from './presets';
+
+export const DEFAULT_CACHE_LOCATION = '.gtm/cache/lint.json';
+
+export interface CachedLintResult {
+  results: SEOLintResult[];
+  unusedSuppressions: SEOLintUnusedSuppression[];
+  readability: ReadabilityAnalysis;
+}
+
+interface CacheEntry extends CachedLintResult {
+  contentHash: string;
+}
+
+interface CacheFile {
+  // Changes whenever the toolkit version, the resolved config or a plugin or
+  // preset module changes
+  key: string;
+  files: Record<string, CacheEntry>;
+}
+
+// Relative keys keep the cache valid when CI restores it into another checkout path
+const toCacheKey = (file: string): string => path.relative(process.cwd(), path.resolve(file));
+
+const hash = (value: string): string => createHash('sha1').update(value).digest('hex');
+
+// Inline plugin rules and formatters are functions, so hash their source too
+const hashConfig = (config?: GTMConfig): string =>
+  hash(JSON.stringify(config ?? {}, (_key, value) => (typeof value === 'function' ? value.toString() : value)));
+
+const getToolVersion = (): string =>
+  (fs.readJsonSync(path.join(__dirname, '../../package.json')) as { version: string }).version;
+
+// Installed packages by name and version, local files by content. Only the
+// entry file of a local plugin is hashed, not the files it requires.
+const fingerprintModule = (modulePath: string): string => {
+  if (modulePath.split(path.sep).includes('node_modules')) {
+    for (let dir = path.dirname(modulePath); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+      const manifestPath = path.join(dir, 'package.json');
+      const manifest = fs.pathExistsSync(manifestPath)
+        ? (fs.readJsonSync(manifestPath, { throws: false }) as { name?: string; version?: string } | null)
+        : null;
+      if (manifest?.name && manifest.version) {
+        return `${manifest.name}@${manifest.version}`;
+      }
+    }
+  }
+  try {
+    return `${modulePath}:${hash(fs.readFileSync(modulePath, 'utf8'))}`;
+  } catch {
+    return modulePath;
+  }
+};
+
+// Plugin and preset modules behind the config's rule set. Plugins that fail
+// to resolve are skipped here; linting reports them.
+const fingerprintModules = (config?: GTMConfig): string => {
+  const pluginModules = (config?.plugins ?? []).flatMap(specifier => {
+    if (typeof specifier !== 'string') {
+      return [];
+    }
+    try {
+      return [resolveToolkitModule(specifier, process.cwd())];
+    } catch {
+      return [];
+    }
+  });
+  return [...pluginModules, ...getPresetModules(config)].map(fingerprintModule).sort().join('\0');
+};
+
+export class LintCache {
+  private dirty = false;
+
+  private constructor(
+    private location: string,
+    private key: string,
+    private files: Record<string, CacheEntry>
+  ) {}
+
+  // Load the cache, discarding it when the toolkit or config changed.
+  // A missing or unreadable cache file starts an empty cache.
+  static async load(config?: GTMConfig, location: string = DEFAULT_CACHE_LOCATION): Promise<LintCache> {
+    const key = hash(`${getToolVersion()}\0${hashConfig(config)}\0${fingerprintModules(config)}`);
+
+    let files: Record<string, CacheEntry> = {};
+    try {
+      if (await fs.pathExists(location)) {
+        const cached = (await fs.readJson(location)) as CacheFile;
+        if (cached?.key === key && cached.files && typeof cached.files === 'object') {
+          files = cached.files;
+        }
+      }
+    } catch {
+      files = {};
+    }
+
+    return new LintCache(location, key, files);
+  }
+
+  get(file: string, content: string): CachedLintResult | undefined {
+    const entry = this.files[toCacheKey(file)];
+    // Entries written before reports carried readability are misses
+    if (!entry || entry.contentHash !== hash(content) || !entry.readability) {
+      return undefined;
+    }
+    return { results: entry.results, unusedSuppressions: entry.unusedSuppressions, readability: entry.readability };
+  }
+
+  set(file: string, content: string, value: CachedLintResult): void {
+    this.files[toCacheKey(file)] = { contentHash: hash(content), ...value };
+    this.dirty = true;
+  }
+
+  // Write the cache if anything changed, dropping entries for deleted files
+  async save(): Promise<void> {
+    const files = Object.fromEntries(
+      Object.entries(this.files).filter(([file]) => fs.existsSync(file))
+    );
+    if (!this.dirty && Object.keys(files).length === Object.keys(this.files).length) {
+      return;
+    }
+
+    const cacheFile: CacheFile = { key: this.key, files };
+    await fs.outputJson(this.location, cacheFile);
+    this.files = files;
+    this.dirty = false;
+  }
+}
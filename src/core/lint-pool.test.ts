@@ -0,0 +1,74 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { getWorkerCount, LintTask, lintInWorkers } from './lint-pool';
+
+// Stub worker speaking the lint-worker protocol. The file name picks the
+// behavior: "fail" reports an error, "exit" calls process.exit, "crash"
+// throws outside the message handler; anything else echoes a report.
+const STUB_WORKER = `
+const { parentPort, workerData } = require('worker_threads');
+parentPort.on('message', ({ id, task }) => {
+  if (task.filePath.includes('fail')) {
+    parentPort.postMessage({ id, error: 'Rule crashed' });
+  } else if (task.filePath.includes('exit')) {
+    process.exit(3);
+  } else if (task.filePath.includes('crash')) {
+    setImmediate(() => { throw new Error('Out of memory'); });
+  } else {
+    parentPort.postMessage({ id, report: { file: task.filePath, configPath: workerData.configPath } });
+  }
+});
+`;
+
+const tasks = (...names: string[]): LintTask[] => names.map(name => ({ filePath: `content/${name}.md`, content: '# Post' }));
+
+describe('getWorkerCount', () => {
+  it('starts one worker per 25 tasks, up to the concurrency', () => {
+    expect(getWorkerCount(10, 8)).toBe(1);
+    expect(getWorkerCount(60, 8)).toBe(3);
+    expect(getWorkerCount(1000, 4)).toBe(4);
+    expect(getWorkerCount(0, 4)).toBe(1);
+  });
+});
+
+describe('lintInWorkers', () => {
+  let dir: string;
+  let workerScript: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-pool-'));
+    workerScript = path.join(dir, 'worker.js');
+    await fs.outputFile(workerScript, STUB_WORKER);
+  });
+
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  it('returns reports in input order and passes the config path to workers', async () => {
+    const names = Array.from({ length: 60 }, (_, index) => `post-${index}`);
+    const reports = await lintInWorkers(tasks(...names), { concurrency: 3, configPath: '/site/gtm.config.js', workerScript });
+
+    expect(reports.map(report => report.file)).toEqual(names.map(name => `content/${name}.md`));
+    expect(reports[0]).toMatchObject({ configPath: '/site/gtm.config.js' });
+  });
+
+  it('resolves immediately without tasks', async () => {
+    expect(await lintInWorkers([], { workerScript })).toEqual([]);
+  });
+
+  it('rejects with the file a worker failed to lint', async () => {
+    await expect(lintInWorkers(tasks('a', 'fail', 'b'), { concurrency: 1, workerScript }))
+      .rejects.toThrow('Failed to lint content/fail.md: Rule crashed');
+  });
+
+  it('rejects when a worker exits while linting a file', async () => {
+    await expect(lintInWorkers(tasks('a', 'exit', 'b'), { concurrency: 1, workerScript }))
+      .rejects.toThrow('Lint worker exited with code 3 while linting content/exit.md');
+  });
+
+  it('rejects when a worker crashes', async () => {
+    await expect(lintInWorkers(tasks('crash'), { concurrency: 1, workerScript })).rejects.toThrow('Out of memory');
+  });
+});
@@ -0,0 +1,113 @@
+// Worker pool - lint files across worker_threads and return reports in input order
+
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { SEOLintReport } from '../types';
+
+export interface LintTask {
+  filePath: string;
+  content: string;
+  frontmatter?: Record<string, unknown>;
+}
+
+export interface LintWorkerRequest {
+  id: number;
+  task: LintTask;
+}
+
+export type LintWorkerResponse =
+  | { id: number; report: SEOLintReport; error?: undefined }
+  | { id: number; error: string; report?: undefined };
+
+export interface LintPoolOptions {
+  concurrency?: number;
+  // Config file the workers load; defaults to gtm.config.js in the working directory
+  configPath?: string;
+  // Worker entry script, e.g. a stub in tests; defaults to lint-worker.js
+  workerScript?: string;
+}
+
+export const getDefaultConcurrency = (): number => Math.max(1, os.cpus().length);
+
+// Starting a worker costs more than linting a handful of files
+const MIN_TASKS_PER_WORKER = 25;
+
+export const getWorkerCount = (taskCount: number, concurrency: number = getDefaultConcurrency()): number =>
+  Math.max(1, Math.min(concurrency, Math.ceil(taskCount / MIN_TASKS_PER_WORKER)));
+
+const WORKER_SCRIPT = path.join(__dirname, 'lint-worker.js');
+
+// Workers pull the next task as soon as they finish one, so a few large
+// files do not hold up the rest. Rejects on the first failing file, and when
+// a worker exits early (process.exit in a plugin, out of memory, ...).
+export const lintInWorkers = (tasks: LintTask[], options: LintPoolOptions = {}): Promise<SEOLintReport[]> => {
+  const { concurrency = getDefaultConcurrency(), configPath, workerScript = WORKER_SCRIPT } = options;
+  const workerCount = getWorkerCount(tasks.length, concurrency);
+  const reports: SEOLintReport[] = new Array(tasks.length);
+
+  if (tasks.length === 0) {
+    return Promise.resolve(reports);
+  }
+
+  return new Promise((resolve, reject) => {
+    const workers: Worker[] = [];
+    // Task each worker is linting, by task index
+    const inFlight = new Map<Worker, number>();
+    let nextTask = 0;
+    let completed = 0;
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      Promise.all(workers.map(worker => worker.terminate())).finally(() =>
+        error ? reject(error) : resolve(reports)
+      );
+    };
+
+    const dispatch = (worker: Worker) => {
+      if (nextTask < tasks.length) {
+        const request: LintWorkerRequest = { id: nextTask, task: tasks[nextTask] };
+        inFlight.set(worker, nextTask);
+        nextTask += 1;
+        worker.postMessage(request);
+      }
+    };
+
+    for (let i = 0; i < workerCount; i++) {
+      const worker = new Worker(workerScript, { workerData: { configPath } });
+      workers.push(worker);
+
+      worker.on('message', (response: LintWorkerResponse) => {
+        if (response.error !== undefined) {
+          finish(new Error(`Failed to lint ${tasks[response.id].filePath}: ${response.error}`));
+          return;
+        }
+        reports[response.id] = response.report;
+        inFlight.delete(worker);
+        completed += 1;
+        if (completed === tasks.length) {
+          finish();
+        } else {
+          dispatch(worker);
+        }
+      });
+      worker.on('error', error => finish(error));
+      // Runs after 'error' for crashes; covers exits without one. Exits once
+      // the pool has settled come from terminate() and are ignored.
+      worker.on('exit', code => {
+        const task = inFlight.get(worker);
+        finish(new Error(
+          task !== undefined
+            ? `Lint worker exited with code ${code} while linting ${tasks[task].filePath}`
+            : `Lint worker exited with code ${code}`
+        ));
+      });
+
+      dispatch(worker);
+    }
+  });
+};
@@ -0,0 +1,26 @@
+// Worker thread entry for parallel linting (see lint-pool.ts). Each worker
+// loads the config file itself because plugin rules cannot be cloned across threads.
+import { parentPort, workerData } from 'worker_threads';
+import { loadConfig } from '../utils/config';
+import { createLintReport } from './seo-rules';
+import type { LintTask, LintWorkerRequest, LintWorkerResponse } from './lint-pool';
+
+const { configPath } = workerData as { configPath?: string };
+const configPromise = loadConfig(configPath);
+
+const lintTask = async (task: LintTask) =>
+  createLintReport(task.content, {
+    filePath: task.filePath,
+    frontmatter: task.frontmatter,
+    config: await configPromise
+  });
+
+parentPort?.on('message', async ({ id, task }: LintWorkerRequest) => {
+  let response: LintWorkerResponse;
+  try {
+    response = { id, report: await lintTask(task) };
+  } catch (error) {
+    response = { id, error: (error as Error).message };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,61 @@
+import { parseMarkdown } from './markdown-ast';
+
+const source = [
+  '---',
+  'title: Launch plan',
+  'summary: How we launch',
+  '---',
+  '# Launch plan',
+  '',
+  'Read the [pricing page](/pricing) and `inline code`.',
+  '',
+  '![Hero](/hero.png)',
+  '',
+  '```js',
+  'const launch = true;',
+  '```',
+  '',
+  '- First step',
+  '- Second step'
+].join('\n');
+
+describe('parseMarkdown', () => {
+  const document = parseMarkdown(source, { filename: 'post.md' });
+
+  it('splits the frontmatter from the body', () => {
+    expect(document.format).toBe('markdown');
+    expect(document.frontmatter?.value).toBe('title: Launch plan\nsummary: How we launch');
+    expect(document.body.map(node => node.type)).toEqual(['heading', 'paragraph', 'paragraph', 'code', 'list']);
+  });
+
+  it('selects nodes by type', () => {
+    expect(document.headings().map(heading => document.textOf(heading))).toEqual(['Launch plan']);
+    expect(document.links().map(link => link.url)).toEqual(['/pricing']);
+    expect(document.images().map(image => image.alt)).toEqual(['Hero']);
+    expect(document.codeBlocks().map(code => code.lang)).toEqual(['js']);
+  });
+
+  it('leaves code out of the prose text', () => {
+    const prose = document.proseText();
+    expect(prose).toContain('Read the pricing page and .');
+    expect(prose).toContain('First step\nSecond step');
+    expect(prose).not.toContain('const launch');
+  });
+
+  it('locates nodes, frontmatter keys and prose matches in the source', () => {
+    expect(document.locate(document.headings()[0])).toEqual({ line: 5, column: 1, endLine: 5, endColumn: 14 });
+    expect(document.locateFrontmatterKey('summary')).toMatchObject({ line: 3, column: 1 });
+    expect(document.findText(/pricing/)).toEqual([
+      { match: 'pricing', location: { line: 7, column: 11, endLine: 7, endColumn: 18 } }
+    ]);
+    expect(document.findText(/launch/)).toEqual([]);
+  });
+
+  it('parses .mdx files as MDX and falls back to Markdown on invalid JSX', () => {
+    expect(parseMarkdown('# Title\n\n<Callout>Note</Callout>\n', { filename: 'post.mdx' }).format).toBe('mdx');
+
+    const broken = parseMarkdown('# Title\n\n<Callout>\n', { filename: 'post.mdx' });
+    expect(broken.format).toBe('markdown');
+    expect(broken.parseError).toBeDefined();
+  });
+});
@@ -0,0 +1,185 @@
+// Markdown/MDX parsing - builds the mdast tree that rules query through SEOLintContext.document
+
+import fromMarkdown from 'mdast-util-from-markdown';
+import frontmatterSyntax from 'micromark-extension-frontmatter';
+import { fromMarkdown as frontmatterFromMarkdown } from 'mdast-util-frontmatter';
+import gfmSyntax from 'micromark-extension-gfm';
+import { fromMarkdown as gfmFromMarkdown } from 'mdast-util-gfm';
+import mdxjsSyntax from 'micromark-extension-mdxjs';
+import { fromMarkdown as mdxFromMarkdown } from 'mdast-util-mdx';
+import type { Code, Content, Heading, Image, Link, Paragraph, Root, Text, YAML } from 'mdast';
+import { KeywordMatch, MarkdownDocument, MarkdownNode, SEOLintLocation } from '../types';
+
+export interface ParseMarkdownOptions {
+  // Parse JSX, expressions and ESM; defaults to true for .mdx files
+  mdx?: boolean;
+  filename?: string;
+}
+
+// Nodes whose text is code, not prose
+const CODE_NODE_TYPES = new Set(['code', 'inlineCode', 'yaml', 'html', 'mdxjsEsm', 'mdxFlowExpression', 'mdxTextExpression']);
+
+// Containers whose children are separate blocks of text
+const BLOCK_CONTAINER_TYPES = new Set(['blockquote', 'list', 'listItem', 'table', 'tableRow']);
+
+const parseTree = (rawContent: string, mdx: boolean): Root => {
+  const extensions = [frontmatterSyntax(['yaml']), gfmSyntax()];
+  const mdastExtensions = [frontmatterFromMarkdown(['yaml']), gfmFromMarkdown];
+
+  if (mdx) {
+    extensions.push(mdxjsSyntax());
+    mdastExtensions.push(mdxFromMarkdown);
+  }
+
+  return fromMarkdown(rawContent, { extensions, mdastExtensions });
+};
+
+const collectNodes = (node: MarkdownNode, type: string, found: MarkdownNode[] = []): MarkdownNode[] => {
+  if (node.type === type) {
+    found.push(node);
+  }
+  if ('children' in node) {
+    (node.children as Content[]).forEach(child => collectNodes(child, type, found));
+  }
+  return found;
+};
+
+const getNodeText = (node: MarkdownNode): string => {
+  if (CODE_NODE_TYPES.has(node.type)) {
+    return '';
+  }
+  if (node.type === 'text') {
+    return node.value;
+  }
+  if (node.type === 'break') {
+    return '\n';
+  }
+  if ('children' in node) {
+    const separator = BLOCK_CONTAINER_TYPES.has(node.type) ? '\n' : '';
+    return (node.children as Content[]).map(child => getNodeText(child)).join(separator);
+  }
+  return '';
+};
+
+const DOCUMENT_START: SEOLintLocation = { line: 1, column: 1 };
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const locateNode = (node: MarkdownNode): SEOLintLocation => {
+  if (!node.position) {
+    return DOCUMENT_START;
+  }
+  const { start, end } = node.position;
+  return { line: start.line, column: start.column, endLine: end.line, endColumn: end.column };
+};
+
+// Maps string offsets back to line/column pairs
+const createOffsetLocator = (rawContent: string) => {
+  const lineStarts = [0];
+  for (let i = 0; i < rawContent.length; i++) {
+    if (rawContent[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number): { line: number; column: number } => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+};
+
+export const parseMarkdown = (rawContent: string, options: ParseMarkdownOptions = {}): MarkdownDocument => {
+  const mdx = options.mdx ?? Boolean(options.filename?.endsWith('.mdx'));
+
+  let root: Root;
+  let format: MarkdownDocument['format'] = mdx ? 'mdx' : 'markdown';
+  let parseError: string | undefined;
+
+  try {
+    root = parseTree(rawContent, mdx);
+  } catch (error) {
+    if (!mdx) {
+      throw error;
+    }
+    // Invalid JSX/expressions: fall back to CommonMark so Markdown rules still run
+    parseError = (error as Error).message;
+    format = 'markdown';
+    root = parseTree(rawContent, false);
+  }
+
+  const frontmatter = root.children.find((child): child is YAML => child.type === 'yaml');
+  const body = root.children.filter(child => child.type !== 'yaml');
+  const select = (type: string): MarkdownNode[] => body.flatMap(child => collectNodes(child, type));
+  const positionAt = createOffsetLocator(rawContent);
+
+  const findText = (
+    pattern: RegExp | ((text: string) => KeywordMatch[])
+  ): Array<{ match: string; location: SEOLintLocation }> => {
+    const matchText = typeof pattern === 'function'
+      ? pattern
+      : (text: string): KeywordMatch[] => {
+        const globalPattern = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+        return [...text.matchAll(globalPattern)].map(match => ({ match: match[0], index: match.index ?? 0 }));
+      };
+    return (select('text') as Text[]).flatMap(node => {
+      const startOffset = node.position?.start.offset;
+      if (startOffset === undefined) {
+        return [];
+      }
+      return matchText(node.value).map(({ match, index }) => {
+        // Text values can differ from the source (escapes, entities); offsets are best effort
+        const start = positionAt(startOffset + index);
+        const end = positionAt(startOffset + index + match.length);
+        return {
+          match,
+          location: { line: start.line, column: start.column, endLine: end.line, endColumn: end.column }
+        };
+      });
+    });
+  };
+
+  const locateFrontmatterKey = (key: string): SEOLintLocation => {
+    if (!frontmatter?.position) {
+      return DOCUMENT_START;
+    }
+
+    // The YAML value starts on the line after the opening ---
+    const keyPattern = new RegExp(`^${escapeRegExp(key)}\\s*:`);
+    const lineIndex = frontmatter.value.split(/\r?\n/).findIndex(line => keyPattern.test(line));
+    if (lineIndex === -1) {
+      return locateNode(frontmatter);
+    }
+
+    const line = frontmatter.position.start.line + 1 + lineIndex;
+    return { line, column: 1, endLine: line, endColumn: key.length + 1 };
+  };
+
+  return {
+    root,
+    format,
+    parseError,
+    frontmatter,
+    body,
+    select,
+    headings: () => select('heading') as Heading[],
+    links: () => select('link') as Link[],
+    images: () => select('image') as Image[],
+    paragraphs: () => select('paragraph') as Paragraph[],
+    codeBlocks: () => select('code') as Code[],
+    textOf: getNodeText,
+    proseText: () => body.map(child => getNodeText(child)).filter(text => text.trim().length > 0).join('\n'),
+    findText,
+    locate: locateNode,
+    locateFrontmatterKey,
+    locateBody: () => (body.length > 0 ? locateNode(body[0]) : DOCUMENT_START)
+  };
+};
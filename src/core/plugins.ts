@@ -0,0 +1,104 @@
+// Plugin loader - custom SEO rules from gtm.config.js, local files and npm packages
+
+import path from 'path';
+import { GTMConfig, GTMPlugin, SEOLintRule } from '../types';
+
+const PLUGIN_PACKAGE_PREFIX = 'gtm-toolkit-plugin-';
+
+export const isLocalPath = (specifier: string): boolean =>
+  specifier.startsWith('.') || path.isAbsolute(specifier);
+
+// "acme" -> "gtm-toolkit-plugin-acme", "@acme/rules" stays as-is
+const getPackageCandidates = (specifier: string, prefix: string): string[] => {
+  if (specifier.startsWith('@') || specifier.startsWith(prefix)) {
+    return [specifier];
+  }
+  return [`${prefix}${specifier}`, specifier];
+};
+
+const getDefaultPluginName = (specifier: string): string => {
+  if (isLocalPath(specifier)) {
+    return path.basename(specifier).replace(/\.[cm]?js$/, '');
+  }
+  return specifier.replace(/^@[^/]+\//, '').replace(PLUGIN_PACKAGE_PREFIX, '');
+};
+
+// Module path for a local file or an npm package named with `prefix`
+// (shared with presets and formatters, which use "gtm-toolkit-preset-" and
+// "gtm-toolkit-formatter-")
+export const resolveToolkitModule = (
+  specifier: string,
+  cwd: string,
+  prefix: string = PLUGIN_PACKAGE_PREFIX,
+  kind: string = 'plugin'
+): string => {
+  if (isLocalPath(specifier)) {
+    return require.resolve(path.resolve(cwd, specifier));
+  }
+
+  for (const candidate of getPackageCandidates(specifier, prefix)) {
+    try {
+      return require.resolve(candidate, { paths: [cwd] });
+    } catch {
+      // try the next candidate
+    }
+  }
+
+  throw new Error(`Cannot find ${kind} package "${specifier}" (run npm install ${getPackageCandidates(specifier, prefix)[0]})`);
+};
+
+const validatePlugin = (plugin: GTMPlugin, source: string): void => {
+  if (!plugin || typeof plugin !== 'object') {
+    throw new Error(`Plugin ${source} must export an object with a rules array`);
+  }
+  if (!plugin.name) {
+    throw new Error(`Plugin ${source} is missing a name`);
+  }
+  if (!Array.isArray(plugin.rules)) {
+    throw new Error(`Plugin ${plugin.name} must export a rules array`);
+  }
+
+  plugin.rules.forEach(rule => {
+    if (!rule.id || !rule.name || typeof rule.check !== 'function') {
+      throw new Error(`Plugin ${plugin.name} has an invalid rule: each rule needs id, name and check()`);
+    }
+    if (!['error', 'warning', 'info'].includes(rule.severity)) {
+      throw new Error(`Plugin rule ${plugin.name}/${rule.id} has invalid severity "${rule.severity}"`);
+    }
+  });
+};
+
+export const loadPlugin = (specifier: string | GTMPlugin, cwd: string = process.cwd()): GTMPlugin => {
+  if (typeof specifier !== 'string') {
+    validatePlugin(specifier, 'from gtm.config.js');
+    return specifier;
+  }
+
+  let loaded: GTMPlugin & { default?: GTMPlugin };
+  try {
+    loaded = require(resolveToolkitModule(specifier, cwd));
+  } catch (error) {
+    throw new Error(`Failed to load GTM plugin "${specifier}": ${(error as Error).message}`);
+  }
+
+  const exported = loaded.default ?? loaded;
+  const plugin: GTMPlugin = {
+    ...exported,
+    name: exported.name || getDefaultPluginName(specifier)
+  };
+  validatePlugin(plugin, `"${specifier}"`);
+  return plugin;
+};
+
+export const namespaceRule = (pluginName: string, rule: SEOLintRule): SEOLintRule => {
+  const prefix = `${pluginName}/`;
+  return rule.id.startsWith(prefix) ? rule : { ...rule, id: `${prefix}${rule.id}` };
+};
+
+export const getPluginRules = (config?: GTMConfig, cwd: string = process.cwd()): SEOLintRule[] => {
+  const specifiers = config?.plugins ?? [];
+  return specifiers.flatMap(specifier => {
+    const plugin = loadPlugin(specifier, cwd);
+    return plugin.rules.map(rule => namespaceRule(plugin.name, rule));
+  });
+};
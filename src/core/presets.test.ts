@@ -0,0 +1,103 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GTMConfig } from '../types';
+import { getPresetModules, mergeRules, resolvePresets } from './presets';
+
+const config = (overrides: Partial<GTMConfig>): GTMConfig => overrides as GTMConfig;
+
+describe('mergeRules', () => {
+  it('keeps earlier options when an override only sets a severity', () => {
+    expect(mergeRules({ 'SEO-041': ['error', { targetGrade: 8 }] }, { 'SEO-041': 'warning' }))
+      .toEqual({ 'SEO-041': ['warning', { targetGrade: 8 }] });
+  });
+
+  it('replaces options when the override has its own', () => {
+    expect(mergeRules({ 'SEO-041': ['error', { targetGrade: 8 }] }, { 'SEO-041': ['error', { targetGrade: 10 }] }))
+      .toEqual({ 'SEO-041': ['error', { targetGrade: 10 }] });
+  });
+
+  it('adds rules the base does not set', () => {
+    expect(mergeRules({ 'SEO-001': 'error' }, { 'SEO-002': 'off' })).toEqual({ 'SEO-001': 'error', 'SEO-002': 'off' });
+  });
+});
+
+describe('resolvePresets', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-presets-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('returns configs without extends unchanged', () => {
+    const plain = config({ rules: { 'SEO-001': 'off' } });
+    expect(resolvePresets(plain, dir)).toBe(plain);
+  });
+
+  it('applies built-in presets left to right with the config last', () => {
+    const resolved = resolvePresets(config({
+      extends: ['strict', 'docs'],
+      rules: { 'SEO-041': 'warning', 'SEO-006': 'error' }
+    }), dir);
+
+    expect(resolved.extends).toBeUndefined();
+    expect(resolved.rules).toMatchObject({
+      'SEO-011': 'error',
+      'SEO-002': 'off',
+      'SEO-006': 'error',
+      'SEO-041': ['warning', { targetGrade: 8, maxPassiveRatio: 0.1 }]
+    });
+  });
+
+  it('merges scoring weights from presets', () => {
+    const resolved = resolvePresets(config({ extends: 'geo', scoring: { weights: { 'SEO-004': 3 } } }), dir);
+    expect(resolved.scoring?.weights).toMatchObject({ 'SEO-004': 3, 'SEO-012': 2 });
+  });
+
+  it('resolves the same config object once', () => {
+    const input = config({ extends: 'strict' });
+    expect(resolvePresets(input, dir)).toBe(resolvePresets(input, dir));
+  });
+
+  it('loads file presets and resolves their plugin paths and extends against the preset file', async () => {
+    const sharedDir = path.join(dir, 'shared');
+    await fs.outputFile(
+      path.join(sharedDir, 'base.js'),
+      "module.exports = { rules: { 'SEO-010': 'warning' } };"
+    );
+    await fs.outputFile(
+      path.join(sharedDir, 'preset.js'),
+      "module.exports = { extends: './base.js', plugins: ['./rules/plugin.js'], rules: { 'SEO-011': 'off' } };"
+    );
+
+    const resolved = resolvePresets(config({ extends: './shared/preset.js' }), dir);
+
+    expect(resolved.rules).toMatchObject({ 'SEO-010': 'warning', 'SEO-011': 'off' });
+    expect(resolved.plugins).toEqual([path.join(sharedDir, 'rules', 'plugin.js')]);
+    expect(getPresetModules(resolved).sort()).toEqual([
+      path.join(sharedDir, 'base.js'),
+      path.join(sharedDir, 'preset.js')
+    ]);
+  });
+
+  it('reports circular extends', async () => {
+    await fs.outputFile(path.join(dir, 'a.js'), "module.exports = { extends: './b.js' };");
+    await fs.outputFile(path.join(dir, 'b.js'), "module.exports = { extends: './a.js' };");
+
+    expect(() => resolvePresets(config({ extends: './a.js' }), dir)).toThrow(/Circular preset extends/);
+  });
+
+  it('lists the built-in presets when a preset cannot be found', () => {
+    expect(() => resolvePresets(config({ extends: 'missing' }), dir))
+      .toThrow(/Failed to load GTM preset "missing".*built-in presets: recommended, strict, geo, docs/);
+  });
+
+  it('rejects presets that are not objects', async () => {
+    await fs.outputFile(path.join(dir, 'bad.js'), "module.exports = ['SEO-001'];");
+    expect(() => resolvePresets(config({ extends: './bad.js' }), dir)).toThrow(/must export an object/);
+  });
+});
@@ -0,0 +1,213 @@
+// Rule presets - built-in bundles of rule settings plus presets from local
+// files and gtm-toolkit-preset-* packages, applied through `extends`
+
+import path from 'path';
+import { GTMConfig, GTMPlugin, GTMPreset, RuleSetting, ScoringConfig } from '../types';
+import { isLocalPath, resolveToolkitModule } from './plugins';
+
+const PRESET_PACKAGE_PREFIX = 'gtm-toolkit-preset-';
+
+export const BUILT_IN_PRESETS: Record<string, GTMPreset> = {
+  // The built-in severities and options, as a base to override
+  recommended: {
+    rules: {}
+  },
+  // Every finding blocks: warnings become errors, info becomes warnings,
+  // with tighter thresholds for readability, density and image size
+  strict: {
+    rules: {
+      'SEO-011': 'error',
+      'SEO-012': 'error',
+      'SEO-013': 'error',
+      'SEO-014': 'error',
+      'SEO-022': ['error', { maxKilobytes: 150 }],
+      'SEO-023': 'warning',
+      'SEO-024': 'error',
+      'SEO-025': 'error',
+      'SEO-040': ['warning', { maxWords: 25 }],
+      'SEO-041': ['error', { targetGrade: 8, maxPassiveRatio: 0.1 }],
+      'SEO-052': ['error', { maxDensity: 2 }],
+      'SEO-070': 'error',
+      'SEO-071': 'error',
+      'SEO-073': 'error'
+    }
+  },
+  // AI answer engines quote short, self-contained passages: favor a clear
+  // opening, short sentences, plain language and descriptive links. The GEO
+  // rules (SEO-060 to SEO-066) still need geo.optimizeForAI.
+  geo: {
+    rules: {
+      'SEO-012': 'error',
+      'SEO-014': 'error',
+      'SEO-040': ['warning', { maxWords: 20 }],
+      'SEO-041': ['warning', { targetGrade: 8, maxParagraphWords: 100 }],
+      'SEO-061': 'warning',
+      'SEO-062': 'warning',
+      'SEO-066': 'warning'
+    },
+    scoring: {
+      weights: {
+        'SEO-004': 2,
+        'SEO-012': 2,
+        'SEO-040': 2,
+        'SEO-041': 2,
+        'SEO-060': 2,
+        'SEO-065': 2
+      }
+    }
+  },
+  // Documentation pages are evergreen reference pages: no date-prefixed
+  // filenames, publish dates, read times or blog categories
+  docs: {
+    rules: {
+      'SEO-002': 'off',
+      'SEO-003': 'off',
+      'SEO-005': 'off',
+      'SEO-006': 'off'
+    }
+  }
+};
+
+const toList = (value?: string | string[]): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const validatePreset = (preset: GTMPreset, specifier: string): void => {
+  if (!preset || typeof preset !== 'object' || Array.isArray(preset)) {
+    throw new Error(`Preset "${specifier}" must export an object with rules, scoring or plugins`);
+  }
+  if (preset.rules !== undefined && (typeof preset.rules !== 'object' || Array.isArray(preset.rules))) {
+    throw new Error(`Preset "${specifier}" rules must be an object keyed by rule id`);
+  }
+  if (preset.plugins !== undefined && !Array.isArray(preset.plugins)) {
+    throw new Error(`Preset "${specifier}" plugins must be an array`);
+  }
+};
+
+// Built-in name first, then a module path or package. Nested `extends` in a
+// preset file resolve relative to that file.
+const loadPreset = (specifier: string, cwd: string): { preset: GTMPreset; dir: string; modulePath?: string } => {
+  if (BUILT_IN_PRESETS[specifier]) {
+    return { preset: BUILT_IN_PRESETS[specifier], dir: cwd };
+  }
+
+  let modulePath: string;
+  let loaded: GTMPreset & { default?: GTMPreset };
+  try {
+    modulePath = resolveToolkitModule(specifier, cwd, PRESET_PACKAGE_PREFIX, 'preset');
+    loaded = require(modulePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to load GTM preset "${specifier}": ${(error as Error).message} ` +
+      `(built-in presets: ${Object.keys(BUILT_IN_PRESETS).join(', ')})`
+    );
+  }
+
+  const preset = loaded.default ?? loaded;
+  validatePreset(preset, specifier);
+  return { preset, dir: path.dirname(modulePath), modulePath };
+};
+
+// A bare severity keeps the options an earlier preset set for the rule,
+// so `'SEO-041': 'error'` over strict still uses strict's targetGrade.
+// Collection rule settings merge over config.rules the same way.
+const mergeRuleSetting = (base: RuleSetting | undefined, override: RuleSetting): RuleSetting => {
+  const overrideOptions = Array.isArray(override) ? override[1] : undefined;
+  if (overrideOptions !== undefined || !Array.isArray(base) || base[1] === undefined) {
+    return override;
+  }
+  return [Array.isArray(override) ? override[0] : override, base[1]];
+};
+
+export const mergeRules = (
+  base: Record<string, RuleSetting> = {},
+  overrides: Record<string, RuleSetting> = {}
+): Record<string, RuleSetting> => {
+  const merged = { ...base };
+  Object.entries(overrides).forEach(([id, setting]) => {
+    merged[id] = mergeRuleSetting(base[id], setting);
+  });
+  return merged;
+};
+
+const mergeScoring = (base: ScoringConfig = {}, overrides: ScoringConfig = {}): ScoringConfig => ({
+  weights: { ...base.weights, ...overrides.weights },
+  severityMultipliers: { ...base.severityMultipliers, ...overrides.severityMultipliers }
+});
+
+// Plugins from every preset, each module or inline plugin once
+const mergePlugins = (
+  base: Array<string | GTMPlugin> = [],
+  overrides: Array<string | GTMPlugin> = []
+): Array<string | GTMPlugin> => [...new Set([...base, ...overrides])];
+
+const mergePreset = (base: GTMPreset, preset: GTMPreset): GTMPreset => ({
+  plugins: mergePlugins(base.plugins, preset.plugins),
+  rules: mergeRules(base.rules, preset.rules),
+  scoring: mergeScoring(base.scoring, preset.scoring)
+});
+
+// Local plugin paths in a preset or config are relative to its file; make
+// them absolute before they are merged with plugins from other presets
+export const resolvePluginPaths = <T extends GTMPreset>(preset: T, dir: string): T => {
+  if (!preset.plugins) {
+    return preset;
+  }
+  return {
+    ...preset,
+    plugins: preset.plugins.map(plugin =>
+      typeof plugin === 'string' && isLocalPath(plugin) ? path.resolve(dir, plugin) : plugin
+    )
+  };
+};
+
+// Flatten a preset and everything it extends, earliest first. Module paths
+// of the presets loaded from files or packages are added to `modules`.
+const flattenPreset = (preset: GTMPreset, cwd: string, chain: string[], modules: string[]): GTMPreset => {
+  const inherited = toList(preset.extends).reduce<GTMPreset>((merged, specifier) => {
+    if (chain.includes(specifier)) {
+      throw new Error(`Circular preset extends: ${[...chain, specifier].join(' -> ')}`);
+    }
+    const { preset: extended, dir, modulePath } = loadPreset(specifier, cwd);
+    if (modulePath) {
+      modules.push(modulePath);
+    }
+    return mergePreset(merged, flattenPreset(resolvePluginPaths(extended, dir), dir, [...chain, specifier], modules));
+  }, {});
+  return mergePreset(inherited, preset);
+};
+
+const resolvedConfigs = new WeakMap<GTMConfig, GTMConfig>();
+const presetModules = new WeakMap<GTMConfig, string[]>();
+
+// Module paths of the file and package presets a resolved config came from,
+// e.g. for the lint cache key
+export const getPresetModules = (config?: GTMConfig): string[] =>
+  (config && presetModules.get(config)) ?? [];
+
+// Apply `extends` to a config: presets merge left to right and the config's
+// own plugins, rules and scoring come last. The result has no `extends`, so
+// resolving it again is a no-op.
+export const resolvePresets = (config: GTMConfig, cwd: string = process.cwd()): GTMConfig => {
+  if (config.extends === undefined) {
+    return config;
+  }
+
+  const cached = resolvedConfigs.get(config);
+  if (cached) {
+    return cached;
+  }
+
+  const modules: string[] = [];
+  const { plugins, rules, scoring } = flattenPreset(config, cwd, [], modules);
+  const resolved: GTMConfig = {
+    ...config,
+    ...(plugins?.length ? { plugins } : {}),
+    rules,
+    scoring
+  };
+  delete resolved.extends;
+
+  resolvedConfigs.set(config, resolved);
+  presetModules.set(resolved, [...new Set(modules)]);
+  return resolved;
+};
@@ -0,0 +1,105 @@
+import { GTMConfig, SEOLintResult } from '../types';
+import { parseMarkdown } from './markdown-ast';
+import { analyzeReadability, countSyllables, getContentType, scoreText, splitSentences } from './readability';
+import { createLintReport, lintContent } from './seo-rules';
+
+const config = (overrides: Partial<GTMConfig>): GTMConfig => overrides as GTMConfig;
+
+describe('scoreText', () => {
+  it('computes Flesch scores from words, sentences and syllables', () => {
+    expect(scoreText('The cat sat. The dog ran.')).toEqual({
+      words: 6,
+      sentences: 2,
+      syllables: 6,
+      fleschReadingEase: 119.2,
+      fleschKincaidGrade: -2.6,
+      passiveSentences: 0,
+      passiveRatio: 0
+    });
+  });
+
+  it('counts passive sentences', () => {
+    const scores = scoreText('The release was deployed on Friday. We fixed the bug. The docs were written by the team.');
+    expect(scores.passiveSentences).toBe(2);
+    expect(scores.passiveRatio).toBe(0.67);
+  });
+
+  it('returns zeros for text without words', () => {
+    expect(scoreText('  --- ').words).toBe(0);
+    expect(scoreText('').fleschKincaidGrade).toBe(0);
+  });
+
+  it('splits sentences on terminal punctuation and line breaks', () => {
+    expect(splitSentences('One. Two? Three!\nFour')).toEqual(['One.', 'Two?', 'Three!', 'Four']);
+    expect(countSyllables('readability')).toBe(5);
+  });
+});
+
+describe('getContentType', () => {
+  it('prefers frontmatter type over the parent directory', () => {
+    expect(getContentType('content/docs/setup.md', { type: 'guide' })).toBe('guide');
+    expect(getContentType('content/docs/setup.md')).toBe('docs');
+    expect(getContentType('setup.md')).toBeUndefined();
+  });
+});
+
+describe('analyzeReadability', () => {
+  const source = [
+    'Short intro here.',
+    '',
+    '## Setup',
+    '',
+    'Install the package. It was built for teams.',
+    '',
+    '```bash',
+    'npm install gtm-toolkit --save-dev --with-many-extra-words-that-should-not-count',
+    '```',
+    '',
+    '## Usage',
+    '',
+    'Run lint.'
+  ].join('\n');
+
+  it('scores the whole body and each section, ignoring code', () => {
+    const analysis = analyzeReadability(parseMarkdown(source));
+
+    expect(analysis.words).toBe(13);
+    expect(analysis.paragraphs).toBe(3);
+    expect(analysis.longestParagraphWords).toBe(8);
+    expect(analysis.sections.map(section => [section.heading, section.line, section.words, section.passiveSentences]))
+      .toEqual([[undefined, 1, 3, 0], ['Setup', 3, 8, 1], ['Usage', 11, 2, 0]]);
+  });
+
+  it('computes the analysis once per document', () => {
+    const document = parseMarkdown(source);
+    expect(analyzeReadability(document)).toBe(analyzeReadability(document));
+  });
+});
+
+describe('SEO-041', () => {
+  const complex = Array.from({ length: 12 }, () =>
+    'Comprehensive organizational transformation necessitates considerable interdepartmental collaboration and sophisticated communication.'
+  ).join(' ');
+  const content = `---\ntitle: Guide\n---\n${complex}\n`;
+  const gradeFindings = (results: SEOLintResult[]) =>
+    results.filter(result => result.rule === 'SEO-041' && !result.passed && result.message.startsWith('Flesch-Kincaid'));
+
+  it('flags bodies above the target grade', () => {
+    const [finding] = gradeFindings(lintContent(content, { filePath: 'content/blog/guide.md' }));
+    expect(finding.message).toMatch(/above the target of 9 for blog content/);
+  });
+
+  it('uses the target grade for the content type', () => {
+    const results = lintContent(content, {
+      filePath: 'content/docs/guide.md',
+      config: config({ rules: { 'SEO-041': ['warning', { targetGrades: { docs: 50 } }] } })
+    });
+    expect(gradeFindings(results)).toEqual([]);
+  });
+
+  it('exposes the analysis on lint reports', () => {
+    const report = createLintReport(content, { filePath: 'content/blog/guide.md' });
+    expect(report.readability.words).toBe(120);
+    expect(report.readability.fleschKincaidGrade).toBeGreaterThan(9);
+  });
+});
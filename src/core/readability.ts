@@ -0,0 +1,142 @@
+// Readability analysis - Flesch scores, passive voice and paragraph length
+// over the prose of a document, overall and per heading section
+
+import path from 'path';
+import type { Heading } from 'mdast';
+import { MarkdownDocument, ReadabilityAnalysis, ReadabilityScores, ReadabilitySection } from '../types';
+
+// Past participles that do not end in -ed
+const IRREGULAR_PARTICIPLES = [
+  'been', 'begun', 'broken', 'brought', 'built', 'bought', 'caught', 'chosen', 'done', 'drawn', 'driven',
+  'found', 'forgotten', 'given', 'gone', 'held', 'hidden', 'kept', 'known', 'laid', 'led', 'left', 'lost',
+  'made', 'meant', 'paid', 'put', 'read', 'run', 'said', 'seen', 'sent', 'set', 'shown', 'sold', 'spent',
+  'taken', 'taught', 'thought', 'told', 'understood', 'won', 'written'
+];
+
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:am|is|are|was|were|be|been|being|get|gets|got)\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'i'
+);
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const getWords = (text: string): string[] => text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word));
+
+export const countWords = (text: string): number => getWords(text).length;
+
+// Whole minutes, rounded up, with a one-minute floor
+export const estimateReadingTime = (words: number, wordsPerMinute = 200): number =>
+  Math.max(1, Math.ceil(words / wordsPerMinute));
+
+// Vowel-group heuristic; close enough for Flesch formulas on English prose
+export const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) {
+    return 1;
+  }
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+};
+
+// Sentences end at . ! ? or a line break (list items, table cells)
+export const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|\n+/).filter(sentence => getWords(sentence).length > 0);
+
+export const scoreText = (text: string): ReadabilityScores => {
+  const sentences = splitSentences(text);
+  const words = getWords(text);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const passiveSentences = sentences.filter(sentence => PASSIVE_PATTERN.test(sentence)).length;
+
+  if (words.length === 0) {
+    return {
+      words: 0,
+      sentences: 0,
+      syllables: 0,
+      fleschReadingEase: 0,
+      fleschKincaidGrade: 0,
+      passiveSentences: 0,
+      passiveRatio: 0
+    };
+  }
+
+  const wordsPerSentence = words.length / Math.max(1, sentences.length);
+  const syllablesPerWord = syllables / words.length;
+
+  return {
+    words: words.length,
+    sentences: sentences.length,
+    syllables,
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    passiveSentences,
+    passiveRatio: sentences.length > 0 ? Math.round((passiveSentences / sentences.length) * 100) / 100 : 0
+  };
+};
+
+// Content type used for per-type targets: frontmatter `type`, otherwise the
+// file's parent directory (blog, service, ...)
+export const getContentType = (filename: string | undefined, frontmatter: Record<string, unknown> = {}): string | undefined => {
+  if (typeof frontmatter.type === 'string' && frontmatter.type.trim()) {
+    return frontmatter.type.trim();
+  }
+  const directory = filename ? path.basename(path.dirname(filename)) : '.';
+  return directory === '.' ? undefined : directory;
+};
+
+// SEO-041 and the lint report read the same analysis; compute it once per document
+const analyses = new WeakMap<MarkdownDocument, ReadabilityAnalysis>();
+
+export const analyzeReadability = (document: MarkdownDocument): ReadabilityAnalysis => {
+  const cached = analyses.get(document);
+  if (cached) {
+    return cached;
+  }
+
+  const sectionBlocks: Array<{ heading?: Heading; line: number; texts: string[] }> = [
+    { line: document.locateBody().line, texts: [] }
+  ];
+  document.body.forEach(node => {
+    if (node.type === 'heading') {
+      sectionBlocks.push({ heading: node, line: document.locate(node).line, texts: [] });
+      return;
+    }
+    const text = document.textOf(node);
+    if (text.trim()) {
+      sectionBlocks[sectionBlocks.length - 1].texts.push(text);
+    }
+  });
+
+  const paragraphs = document.paragraphs()
+    .map(paragraph => ({ line: document.locate(paragraph).line, words: countWords(document.textOf(paragraph)) }))
+    .filter(paragraph => paragraph.words > 0);
+
+  const sections: ReadabilitySection[] = sectionBlocks
+    .map((block, index) => {
+      const nextLine = sectionBlocks[index + 1]?.line ?? Infinity;
+      return {
+        heading: block.heading ? document.textOf(block.heading).trim() : undefined,
+        line: block.line,
+        paragraphs: paragraphs.filter(paragraph => paragraph.line >= block.line && paragraph.line < nextLine).length,
+        ...scoreText(block.texts.join('\n'))
+      };
+    })
+    .filter(section => section.heading !== undefined || section.words > 0);
+
+  const paragraphWords = paragraphs.map(paragraph => paragraph.words);
+
+  const analysis: ReadabilityAnalysis = {
+    ...scoreText(sectionBlocks.flatMap(block => block.texts).join('\n')),
+    paragraphs: paragraphs.length,
+    averageParagraphWords: paragraphs.length > 0
+      ? Math.round(paragraphWords.reduce((total, words) => total + words, 0) / paragraphs.length)
+      : 0,
+    longestParagraphWords: Math.max(0, ...paragraphWords),
+    sections
+  };
+  analyses.set(document, analysis);
+  return analysis;
+};
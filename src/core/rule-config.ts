@@ -0,0 +1,60 @@
+// Rule configuration - resolves the ESLint-style `rules` map from gtm.config.js
+
+import { RuleSetting, RuleSeveritySetting, SEOLintRule, SEOLintSeverity, SEORuleDefinition } from '../types';
+
+export interface ConfiguredRule<T extends SEORuleDefinition = SEOLintRule> {
+  rule: T;
+  severity: SEOLintSeverity;
+  options: Record<string, unknown>;
+}
+
+const SEVERITY_SETTINGS: RuleSeveritySetting[] = ['off', 'error', 'warning', 'info'];
+
+const parseRuleSetting = (
+  ruleId: string,
+  setting: RuleSetting
+): { severity: RuleSeveritySetting; options: Record<string, unknown> } => {
+  const [severity, options = {}] = Array.isArray(setting) ? setting : [setting];
+
+  if (!SEVERITY_SETTINGS.includes(severity)) {
+    throw new Error(
+      `Invalid severity "${severity}" for rule ${ruleId} (expected one of: ${SEVERITY_SETTINGS.join(', ')})`
+    );
+  }
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new Error(`Options for rule ${ruleId} must be an object`);
+  }
+
+  return { severity, options };
+};
+
+// Apply config.rules to the active rule set: drop "off" rules, override
+// severities and merge options over each rule's defaultOptions. `knownIds`
+// lists every valid ID when `rules` is only one kind of rule.
+export const resolveRuleSettings = <T extends SEORuleDefinition>(
+  rules: T[],
+  settings: Record<string, RuleSetting> = {},
+  knownIds: string[] = rules.map(rule => rule.id)
+): ConfiguredRule<T>[] => {
+  const unknownIds = Object.keys(settings).filter(id => !knownIds.includes(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Unknown rule(s) in config.rules: ${unknownIds.join(', ')}`);
+  }
+
+  return rules.flatMap(rule => {
+    const setting = settings[rule.id];
+    const { severity, options } = setting !== undefined
+      ? parseRuleSetting(rule.id, setting)
+      : { severity: rule.severity, options: {} };
+
+    if (severity === 'off') {
+      return [];
+    }
+
+    return [{
+      rule,
+      severity,
+      options: { ...rule.defaultOptions, ...options }
+    }];
+  });
+};
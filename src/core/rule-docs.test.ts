@@ -0,0 +1,60 @@
+import { GTMConfig } from '../types';
+import { BUILT_IN_RULE_DOCS, formatRuleOptions, formatRuleReference, getRuleCatalog } from './rule-docs';
+
+const config = (overrides: Partial<GTMConfig>): GTMConfig => overrides as GTMConfig;
+
+const plugin = {
+  name: 'brand',
+  rules: [{
+    id: 'no-utilize',
+    name: 'Plain Language',
+    description: 'Prefer "use" over "utilize"',
+    severity: 'warning' as const,
+    docs: { rationale: 'Plain words read faster.' },
+    check: () => ({ passed: true, message: 'ok' })
+  }]
+};
+
+describe('getRuleCatalog', () => {
+  it('lists built-in rules by ID, then plugin rules, with configured severity and options', () => {
+    const catalog = getRuleCatalog(config({
+      plugins: [plugin],
+      rules: { 'SEO-041': ['error', { targetGrade: 7 }], 'SEO-013': 'off' }
+    }));
+    const byId = new Map(catalog.map(entry => [entry.rule.id, entry]));
+
+    expect(catalog[0].rule.id).toBe('SEO-001');
+    expect(catalog[catalog.length - 1].rule.id).toBe('brand/no-utilize');
+    expect(byId.get('SEO-041')).toMatchObject({ severity: 'error', options: { targetGrade: 7 } });
+    expect(byId.get('SEO-013')?.severity).toBe('off');
+    expect(byId.get('SEO-060')?.severity).toBe('off');
+    expect(byId.get('brand/no-utilize')?.docs).toEqual({ rationale: 'Plain words read faster.', category: 'Plugins' });
+  });
+
+  it('documents every built-in rule', () => {
+    getRuleCatalog(config({ geo: { enabled: true, optimizeForAI: true, structuredData: false } }))
+      .forEach(({ rule }) => expect(BUILT_IN_RULE_DOCS[rule.id]).toBeDefined());
+  });
+});
+
+describe('formatRuleReference', () => {
+  const reference = formatRuleReference(config({ rules: { 'SEO-013': 'off', 'SEO-040': 'error' } }));
+
+  it('documents active rules with their configured severity', () => {
+    expect(reference).toContain('### SEO-040: ');
+    expect(reference).toMatch(/### SEO-040: [^\n]+\n\n[^\n]+\n\n- Severity: error \(default info\)/);
+  });
+
+  it('leaves out rules that are off and names them at the end', () => {
+    expect(reference).not.toContain('### SEO-013');
+    expect(reference).not.toContain('### SEO-060');
+    expect(reference).toMatch(/## Disabled Rules\n\nOff in the current configuration: SEO-013, SEO-060/);
+  });
+});
+
+describe('formatRuleOptions', () => {
+  it('formats options as key: value pairs', () => {
+    expect(formatRuleOptions({ min: 45, unit: 'chars' })).toBe('min: 45, unit: "chars"');
+    expect(formatRuleOptions({ min: 45 }, true)).toBe('`min: 45`');
+  });
+});
@@ -0,0 +1,327 @@
+// Rule documentation - category, rationale and examples for every rule, plus
+// the catalog and Markdown reference behind `gtm-toolkit rules`
+
+import { GTMConfig, RuleSeveritySetting, SEORuleDefinition, SEORuleDocs } from '../types';
+import { CORPUS_RULES } from './corpus-rules';
+import { GEO_RULES } from './geo-rules';
+import { resolveRuleSettings } from './rule-config';
+import { getActiveRules, getAllRuleIds } from './seo-rules';
+
+// Category of plugin rules that do not declare one
+const PLUGIN_CATEGORY = 'Plugins';
+
+export const BUILT_IN_RULE_DOCS: Record<string, SEORuleDocs> = {
+  'SEO-001': {
+    category: 'Frontmatter',
+    rationale: 'The title is the search result headline. Titles outside 45-70 characters get truncated or look thin, and a keyword near the start tells readers and search engines what the page is about.',
+    good: 'title: "Feature Flags for Platform Teams: A Practical Guide"',
+    bad: 'title: "Some Thoughts"'
+  },
+  'SEO-002': {
+    category: 'Frontmatter',
+    rationale: 'Sitemaps, feeds and article structured data need an unambiguous publish date.',
+    good: 'date: 2025-01-15',
+    bad: 'date: Jan 15th'
+  },
+  'SEO-003': {
+    category: 'Frontmatter',
+    rationale: 'Categories drive archive pages and related-post links. A typo creates an orphan category page.',
+    good: 'category: engineering',
+    bad: 'category: Enginering'
+  },
+  'SEO-004': {
+    category: 'Frontmatter',
+    rationale: 'The summary becomes the meta description. At 120-160 characters it fits the result snippet, and mentioning the keyword gets it bolded in results.',
+    good: 'summary: "How platform teams roll out feature flags safely: naming, ownership, cleanup and the guard rails that keep flag debt from piling up."',
+    bad: 'summary: "A post about flags."'
+  },
+  'SEO-005': {
+    category: 'Frontmatter',
+    rationale: 'A read time that does not match the body sets the wrong expectation. `lint --fix` writes the computed value.',
+    good: 'Readtime: "4 min read"',
+    bad: 'Readtime: "soon"'
+  },
+  'SEO-006': {
+    category: 'Frontmatter',
+    rationale: 'Date-prefixed slugs keep posts sorted on disk and make the URL predictable from the title.',
+    good: '2025-01-15-feature-flags-guide.md',
+    bad: 'Feature Flags Guide.md'
+  },
+  'SEO-007': {
+    category: 'Frontmatter',
+    rationale: 'Templates read collection fields directly. A missing or mistyped field breaks the page at build time or renders it incomplete.',
+    good: 'tier: growth   # allowed by the collection schema',
+    bad: 'tier: pro      # not in the schema enum'
+  },
+  'SEO-010': {
+    category: 'Content Structure',
+    rationale: 'Templates render the frontmatter title as the H1. A second `#` heading in the body competes with it.',
+    good: '## Why flags rot',
+    bad: '# Why flags rot'
+  },
+  'SEO-011': {
+    category: 'Content Structure',
+    rationale: 'Screen readers and search engines use the heading outline. Skipped levels break it.',
+    good: '## Rollout\n### Percentage rollouts',
+    bad: '## Rollout\n#### Percentage rollouts'
+  },
+  'SEO-012': {
+    category: 'Content Structure',
+    rationale: 'Readers and search engines both judge relevance from the opening paragraph.',
+    good: 'Feature flags let platform teams ship code dark and turn it on later.',
+    bad: 'In this post we will look at something many teams struggle with.'
+  },
+  'SEO-013': {
+    category: 'Content Structure',
+    rationale: 'Internal links spread authority across the site and keep readers on it.',
+    good: 'See [our rollout checklist](/blog/rollout-checklist).',
+    bad: 'A post with no links to other pages on the site.'
+  },
+  'SEO-014': {
+    category: 'Content Structure',
+    rationale: 'Anchor text tells readers and search engines what the target page is about. Bare URLs and "click here" say nothing.',
+    good: 'Read the [flag lifecycle guide](https://example.org/guide).',
+    bad: '[Click here](https://example.org/guide) for more.'
+  },
+  'SEO-020': {
+    category: 'Media & Accessibility',
+    rationale: 'Alt text is read aloud by screen readers and is the main signal image search has about an image.',
+    good: '![Flag rollout dashboard at 20%](/img/rollout.webp)',
+    bad: '![](/img/rollout.webp)'
+  },
+  'SEO-021': {
+    category: 'Media & Accessibility',
+    rationale: 'A missing image file renders as a broken image and a 404 in the crawl report.',
+    good: '![Dashboard](/img/dashboard.webp)   # public/img/dashboard.webp exists',
+    bad: '![Dashboard](/img/dashbaord.webp)'
+  },
+  'SEO-022': {
+    category: 'Media & Accessibility',
+    rationale: 'Large images slow down Largest Contentful Paint, which is a Core Web Vital.',
+    good: 'hero.webp, 140 KB',
+    bad: 'hero.png, 2.4 MB'
+  },
+  'SEO-023': {
+    category: 'Media & Accessibility',
+    rationale: 'WebP and AVIF are usually 25-50% smaller than JPEG or PNG at the same quality.',
+    good: '![Architecture](/img/architecture.avif)',
+    bad: '![Architecture](/img/architecture.png)'
+  },
+  'SEO-024': {
+    category: 'Media & Accessibility',
+    rationale: 'Without width and height the browser cannot reserve space, and the page shifts when the image loads (Cumulative Layout Shift).',
+    good: '<Image src="/img/flow.webp" alt="Request flow" width={800} height={450} />',
+    bad: '<img src="/img/flow.webp" alt="Request flow">'
+  },
+  'SEO-025': {
+    category: 'Media & Accessibility',
+    rationale: 'Alt text that repeats the filename tells screen reader users nothing about the image.',
+    good: '![Error rate before and after the rollout](/img/error-rate.webp)',
+    bad: '![error-rate.webp](/img/error-rate.webp)'
+  },
+  'SEO-031': {
+    category: 'Technical Meta',
+    rationale: 'Placeholder links and text that reach production look unfinished and send crawlers to dead URLs.',
+    good: 'See the [rollout checklist](/blog/rollout-checklist).',
+    bad: 'See the [rollout checklist](#). TODO finish this section.'
+  },
+  'SEO-040': {
+    category: 'Readability',
+    rationale: 'Short opening sentences keep readers past the first screen and are easier for AI answers to quote.',
+    good: 'Feature flags decouple deploys from releases. Ship code dark, then turn it on.',
+    bad: 'Feature flags, which have become an increasingly common practice across engineering organisations of every size in recent years, allow teams to decouple the act of deploying code from the act of releasing it to users.'
+  },
+  'SEO-041': {
+    category: 'Readability',
+    rationale: 'Plain language widens the audience. High grade levels, heavy passive voice and wall-of-text paragraphs lose readers.',
+    good: 'The team removed the flag after a week.',
+    bad: 'The flag was removed by the team after a period of approximately one week had been observed.'
+  },
+  'SEO-051': {
+    category: 'Prohibited Patterns',
+    rationale: 'Broken Markdown renders as literal brackets, runaway code blocks or missing headings.',
+    good: '```ts\nconst enabled = flags.get("checkout");\n```',
+    bad: '```ts\nconst enabled = flags.get("checkout");'
+  },
+  'SEO-052': {
+    category: 'Prohibited Patterns',
+    rationale: 'Repeating a keyword reads as spam to readers and to search engines.',
+    good: 'Mention the keyword where it fits and vary the wording elsewhere.',
+    bad: 'Feature flags are great. Our feature flags guide covers feature flags for feature flags users.'
+  },
+  'SEO-060': {
+    category: 'Generative Engine Optimization',
+    rationale: 'AI answer engines quote the passage that resolves the query. A short answer up front is the passage most likely to be cited.',
+    good: 'Feature flags let you deploy code without releasing it. You turn features on per user or percentage at runtime.',
+    bad: 'In this post we will take a look at a topic many teams have been asking about lately.'
+  },
+  'SEO-061': {
+    category: 'Generative Engine Optimization',
+    rationale: 'Answer engines match user questions against headings. A question-style H2 followed by its answer maps directly onto a query.',
+    good: '## How do feature flags reduce deployment risk?',
+    bad: '## Risk'
+  },
+  'SEO-062': {
+    category: 'Generative Engine Optimization',
+    rationale: 'One-sentence definitions are what answer engines and featured snippets lift for "what is" queries.',
+    good: 'A feature flag is a switch that turns a code path on or off at runtime.',
+    bad: 'Feature flags, which many teams have adopted over the years for a variety of reasons including but not limited to safer deploys, are a technique that ...'
+  },
+  'SEO-063': {
+    category: 'Generative Engine Optimization',
+    rationale: 'FAQ sections give answer engines ready-made question and answer pairs, and can be marked up as FAQPage structured data.',
+    good: '## Frequently asked questions\n### Do feature flags slow down my app?\nNo. Flag checks are local lookups.',
+    bad: '## FAQ\nSome things people ask about.'
+  },
+  'SEO-064': {
+    category: 'Generative Engine Optimization',
+    rationale: 'Answer engines extract comparisons from tables and lists far more reliably than from paragraphs.',
+    good: '## Config files vs a flag service\n| | Config files | Flag service |\n| --- | --- | --- |\n| Change without deploy | No | Yes |',
+    bad: '## Config files vs a flag service\nConfig files need a deploy to change, while a flag service does not, but it costs more and ...'
+  },
+  'SEO-065': {
+    category: 'Generative Engine Optimization',
+    rationale: 'Answer engines favor content that cites its sources, and links let readers check a claim.',
+    good: 'Teams that use trunk-based development deploy more often ([DORA report](https://dora.dev/research/)).',
+    bad: 'Studies show teams that use trunk-based development deploy more often.'
+  },
+  'SEO-066': {
+    category: 'Generative Engine Optimization',
+    rationale: 'Specific numbers are quotable facts. Vague claims give an answer engine nothing to cite.',
+    good: 'Rollbacks dropped from 45 minutes to 2 minutes.',
+    bad: 'Rollbacks got much faster.'
+  },
+  'SEO-070': {
+    category: 'Site-Wide',
+    rationale: 'Pages with the same title compete for the same queries and look identical in results.',
+    good: 'Every file has its own title.',
+    bad: 'Two posts titled "Feature Flags Guide".'
+  },
+  'SEO-071': {
+    category: 'Site-Wide',
+    rationale: 'Search engines often rewrite duplicate meta descriptions.',
+    good: 'Every file has its own summary.',
+    bad: 'Two posts sharing a copied summary.'
+  },
+  'SEO-072': {
+    category: 'Site-Wide',
+    rationale: 'Two files on the same URL means one of them is never published.',
+    good: '/blog/feature-flags-guide and /blog/feature-flags-cleanup',
+    bad: 'Two files that both resolve to /blog/feature-flags-guide'
+  },
+  'SEO-073': {
+    category: 'Site-Wide',
+    rationale: 'Pages that declare the same canonical URL tell search engines only one of them should be indexed.',
+    good: 'canonical: https://example.dev/blog/feature-flags-guide   # this page',
+    bad: 'canonical: https://example.dev/blog/other-post'
+  },
+  'SEO-074': {
+    category: 'Site-Wide',
+    rationale: 'Broken internal links waste crawl budget and dead-end readers. The rule suggests the closest existing URL or heading.',
+    good: '[Rollout checklist](/blog/rollout-checklist#before-you-start)',
+    bad: '[Rollout checklist](/blog/rolout-checklist)'
+  }
+};
+
+// Built-in docs with the rule's own docs on top; plugin rules default to "Plugins"
+export const getRuleDocs = (rule: SEORuleDefinition): SEORuleDocs & { category: string } => {
+  const docs = { ...BUILT_IN_RULE_DOCS[rule.id], ...rule.docs };
+  return { ...docs, category: docs.category ?? PLUGIN_CATEGORY };
+};
+
+export interface RuleCatalogEntry {
+  rule: SEORuleDefinition;
+  // Severity after config.rules; "off" rules stay in the catalog
+  severity: RuleSeveritySetting;
+  // defaultOptions merged with options from config.rules
+  options: Record<string, unknown>;
+  docs: SEORuleDocs & { category: string };
+}
+
+// Every rule (document, corpus and plugin) with its configured severity and
+// options. Built-in rules are sorted by ID; plugin rules follow in load order.
+export const getRuleCatalog = (config?: GTMConfig): RuleCatalogEntry[] => {
+  const documentRules = getActiveRules(config);
+  const knownIds = getAllRuleIds(config);
+  const configured = new Map<string, { severity: RuleSeveritySetting; options: Record<string, unknown> }>(
+    [
+      ...resolveRuleSettings(documentRules, config?.rules, knownIds),
+      ...resolveRuleSettings(CORPUS_RULES, config?.rules, knownIds)
+    ].map(({ rule, severity, options }) => [rule.id, { severity, options }])
+  );
+  // GEO rules are listed as "off" while geo.optimizeForAI is not set
+  const definitions = new Map<string, SEORuleDefinition>(
+    [...GEO_RULES, ...documentRules, ...CORPUS_RULES].map(rule => [rule.id, rule])
+  );
+  const isPluginRule = (id: string) => id.includes('/');
+
+  return knownIds
+    .map(id => definitions.get(id) as SEORuleDefinition)
+    .sort((a, b) =>
+      Number(isPluginRule(a.id)) - Number(isPluginRule(b.id)) ||
+      (isPluginRule(a.id) ? 0 : a.id.localeCompare(b.id))
+    )
+    .map(rule => ({
+      rule,
+      severity: configured.get(rule.id)?.severity ?? 'off',
+      options: configured.get(rule.id)?.options ?? { ...rule.defaultOptions },
+      docs: getRuleDocs(rule)
+    }));
+};
+
+// "targetGrade: 9", optionally wrapped in Markdown code spans
+export const formatRuleOptions = (options: Record<string, unknown>, markdown = false): string =>
+  Object.entries(options)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .map(option => (markdown ? `\`${option}\`` : option))
+    .join(', ');
+
+// Longer fence when the snippet itself contains one (SEO-051)
+const codeBlock = (snippet: string): string => {
+  const fence = snippet.includes('```') ? '````' : '```';
+  return [fence, snippet, fence].join('\n');
+};
+
+// Markdown reference of every active rule, grouped by category. Rules that
+// are "off" are only named at the end, since they never report anything.
+export const formatRuleReference = (config?: GTMConfig): string => {
+  const fullCatalog = getRuleCatalog(config);
+  const catalog = fullCatalog.filter(entry => entry.severity !== 'off');
+  const disabled = fullCatalog.filter(entry => entry.severity === 'off').map(entry => entry.rule.id);
+  const categories = [...new Set(catalog.map(entry => entry.docs.category))];
+  const lines = [
+    '# SEO Rule Reference',
+    '',
+    `${catalog.length} rules. Severities and options reflect gtm.config.js.`,
+    ''
+  ];
+
+  categories.forEach(category => {
+    lines.push(`## ${category}`, '');
+    catalog
+      .filter(entry => entry.docs.category === category)
+      .forEach(({ rule, severity, options, docs }) => {
+        lines.push(`### ${rule.id}: ${rule.name}`, '', rule.description, '');
+        lines.push(`- Severity: ${severity}${severity !== rule.severity ? ` (default ${rule.severity})` : ''}`);
+        if (Object.keys(options).length > 0) {
+          lines.push(`- Options: ${formatRuleOptions(options, true)}`);
+        }
+        lines.push('');
+        if (docs.rationale) {
+          lines.push(docs.rationale, '');
+        }
+        if (docs.good) {
+          lines.push('Passes:', '', codeBlock(docs.good), '');
+        }
+        if (docs.bad) {
+          lines.push('Fails:', '', codeBlock(docs.bad), '');
+        }
+      });
+  });
+
+  if (disabled.length > 0) {
+    lines.push('## Disabled Rules', '', `Off in the current configuration: ${disabled.join(', ')}`, '');
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+};
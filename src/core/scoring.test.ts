@@ -0,0 +1,66 @@
+import { SEOLintResult, SEOLintSeverity } from '../types';
+import { getRuleWeight, getScoreDeductions, scoreResults } from './scoring';
+import { summarizeLintResults } from './seo-rules';
+
+const result = (rule: string, severity: SEOLintSeverity, passed: boolean, extra: Partial<SEOLintResult> = {}): SEOLintResult => ({
+  rule,
+  name: rule,
+  severity,
+  passed,
+  message: rule,
+  ...extra
+} as SEOLintResult);
+
+describe('getRuleWeight', () => {
+  it('multiplies the rule weight by the severity multiplier', () => {
+    expect(getRuleWeight('SEO-001', 'error')).toBe(3);
+    expect(getRuleWeight('SEO-001', 'info')).toBe(1);
+    expect(getRuleWeight('SEO-001', 'warning', { weights: { 'SEO-001': 5 } })).toBe(10);
+    expect(getRuleWeight('SEO-001', 'error', { severityMultipliers: { error: 10 } })).toBe(10);
+  });
+});
+
+describe('scoreResults', () => {
+  it('weights rules by severity and counts each rule once', () => {
+    const { score, scoreBreakdown } = scoreResults([
+      result('SEO-001', 'error', true),
+      result('SEO-041', 'warning', false),
+      result('SEO-041', 'warning', false),
+      result('SEO-050', 'info', false)
+    ]);
+
+    expect(score).toBeCloseTo(50);
+    expect(scoreBreakdown.map(entry => [entry.rule, entry.weight, entry.findings, entry.points]))
+      .toEqual([['SEO-001', 3, 0, 50], ['SEO-041', 2, 2, 0], ['SEO-050', 1, 1, 0]]);
+    expect(getScoreDeductions(scoreBreakdown).map(entry => entry.rule)).toEqual(['SEO-041', 'SEO-050']);
+  });
+
+  it('does not fail rules for suppressed findings but does for baselined ones', () => {
+    const { score } = scoreResults([
+      result('SEO-001', 'error', false, { suppressed: true }),
+      result('SEO-002', 'error', false, { baselined: true })
+    ]);
+    expect(score).toBeCloseTo(50);
+  });
+
+  it('scores 100 without results', () => {
+    expect(scoreResults([]).score).toBe(100);
+  });
+});
+
+describe('summarizeLintResults', () => {
+  it('counts info findings next to errors and warnings', () => {
+    const { summary, score } = summarizeLintResults([
+      result('SEO-001', 'error', false),
+      result('SEO-002', 'warning', false),
+      result('SEO-003', 'info', false),
+      result('SEO-004', 'info', true),
+      result('SEO-005', 'error', false, { suppressed: true }),
+      result('SEO-006', 'error', false, { baselined: true })
+    ], { weights: { 'SEO-004': 8 } });
+
+    expect(summary).toEqual({ errors: 1, warnings: 1, info: 1, passed: 1, suppressed: 1, baselined: 1 });
+    // SEO-004 (8) and the suppressed SEO-005 (3) earn 11 of 20 points
+    expect(score).toBeCloseTo(55);
+  });
+});
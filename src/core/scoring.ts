@@ -0,0 +1,62 @@
+// Scoring model - weighted share of rules without open findings, shared by
+// `lint`, `audit` and every report formatter
+
+import { RuleScore, ScoringConfig, SEOLintResult, SEOLintSeverity } from '../types';
+
+export const DEFAULT_SEVERITY_MULTIPLIERS: Record<SEOLintSeverity, number> = {
+  error: 3,
+  warning: 2,
+  info: 1
+};
+
+// Weight of a rule: its configured weight (default 1) times the multiplier
+// of the severity it runs at
+export const getRuleWeight = (rule: string, severity: SEOLintSeverity, scoring?: ScoringConfig): number =>
+  (scoring?.weights?.[rule] ?? 1) *
+  (scoring?.severityMultipliers?.[severity] ?? DEFAULT_SEVERITY_MULTIPLIERS[severity]);
+
+// Score per rule, not per finding, so one noisy rule cannot sink the score.
+// Suppressed findings were accepted by the author, so they do not fail a
+// rule; baselined findings are still real problems and do.
+export const scoreResults = (
+  results: SEOLintResult[],
+  scoring?: ScoringConfig
+): { score: number; scoreBreakdown: RuleScore[] } => {
+  const rules = new Map<string, RuleScore>();
+
+  results.forEach(result => {
+    const entry = rules.get(result.rule) ?? {
+      rule: result.rule,
+      name: result.name,
+      severity: result.severity,
+      weight: getRuleWeight(result.rule, result.severity, scoring),
+      passed: true,
+      findings: 0,
+      maxPoints: 0,
+      points: 0
+    };
+    if (!result.passed && !result.suppressed) {
+      entry.passed = false;
+      entry.findings += 1;
+    }
+    rules.set(result.rule, entry);
+  });
+
+  const scoreBreakdown = [...rules.values()];
+  const totalWeight = scoreBreakdown.reduce((total, entry) => total + entry.weight, 0);
+  scoreBreakdown.forEach(entry => {
+    entry.maxPoints = totalWeight > 0 ? (entry.weight / totalWeight) * 100 : 0;
+    entry.points = entry.passed ? entry.maxPoints : 0;
+  });
+
+  const score = totalWeight > 0
+    ? scoreBreakdown.reduce((total, entry) => total + entry.points, 0)
+    : 100;
+  return { score, scoreBreakdown };
+};
+
+// Failing rules ordered by the points they cost
+export const getScoreDeductions = (scoreBreakdown: RuleScore[]): RuleScore[] =>
+  scoreBreakdown
+    .filter(entry => !entry.passed && entry.maxPoints > 0)
+    .sort((a, b) => b.maxPoints - a.maxPoints);
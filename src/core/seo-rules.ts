@@ -3,11 +3,41 @@
 
 import path from 'path';
 import matter from 'gray-matter';
-import { SEOLintRule, SEOLintResult, SEOLintRuleResult, SEOLintReport, SEOLintSummary } from '../types';
-export type { SEOLintResult, SEOLintRule } from '../types';
+import type { Paragraph } from 'mdast';
+import {
+  ContentFile,
+  GTMConfig,
+  MarkdownDocument,
+  ReadabilityAnalysis,
+  SEOLintContext,
+  SEOLintFix,
+  SEOLintLocation,
+  SEOLintRule,
+  SEOLintResult,
+  SEOLintRuleResult,
+  SEOLintReport,
+  SEOLintSummary,
+  SEOLintUnusedSuppression,
+  RuleScore,
+  ScoringConfig
+} from '../types';
+import { getPluginRules } from './plugins';
+import { CORPUS_RULES } from './corpus-rules';
+import { GEO_RULES } from './geo-rules';
+import { mergeRules, resolvePresets } from './presets';
+import { resolveRuleSettings } from './rule-config';
+import { scoreResults } from './scoring';
+import { applySuppressions } from './suppressions';
+import { parseMarkdown } from './markdown-ast';
+import { createKeywordMatcher } from './keyword-matcher';
+import { findCollection, SchemaViolation, validateFrontmatter } from './collections';
+import { getImagePathname, getImageReferences } from './images';
+import { analyzeReadability, countWords, estimateReadingTime, getContentType } from './readability';
+import type { LintCache } from './lint-cache';
+export type { GTMPlugin, MarkdownDocument, SEOLintContext, SEOLintResult, SEOLintRule } from '../types';
 
-// Primary keywords for validation
-const PRIMARY_KEYWORDS = [
+// Default keyword lists, used when gtm.config.js does not define seo.keywords
+const DEFAULT_PRIMARY_KEYWORDS = [
   'gtm as code',
   'modern marketing', 
   'developer marketing',
@@ -23,7 +53,7 @@ const PRIMARY_KEYWORDS = [
   'posthog'
 ];
 
-const SECONDARY_KEYWORDS = [
+const DEFAULT_SECONDARY_KEYWORDS = [
   'content as code',
   'growth engineering', 
   'continuous marketing',
@@ -36,7 +66,56 @@ const SECONDARY_KEYWORDS = [
   'brand consistency'
 ];
 
-const ALLOWED_CATEGORIES = ['gtm', 'SEO', 'vibe coding', 'OUT-OF-STEALTH'];
+// Offsets of a 1-based line, without its line break
+const getLineRange = (content: string, line: number): [number, number] => {
+  const lines = content.split('\n');
+  const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+  const text = (lines[line - 1] ?? '').replace(/\r$/, '');
+  return [Math.min(start, content.length), Math.min(start + text.length, content.length)];
+};
+
+// Fix that rewrites a single-line frontmatter entry found by locateFrontmatterKey
+const replaceFrontmatterLine = (
+  content: string,
+  location: SEOLintLocation,
+  key: string,
+  text: string
+): SEOLintFix | undefined => {
+  const range = getLineRange(content, location.line);
+  const current = content.slice(range[0], range[1]);
+  return new RegExp(`^${key}\\s*:\\s*\\S`).test(current) ? { range, text } : undefined;
+};
+
+// Fix that adds a line just before the closing --- of the frontmatter
+const insertFrontmatterLine = (content: string, document: MarkdownDocument, text: string): SEOLintFix | undefined => {
+  const end = document.frontmatter?.position?.end.offset;
+  if (end === undefined || content.slice(end - 3, end) !== '---') {
+    return undefined;
+  }
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  return { range: [end - 3, end - 3], text: `${text}${newline}` };
+};
+
+const SCHEMA_SUGGESTIONS: Record<SchemaViolation['keyword'], string> = {
+  type: 'Change the value to the type the collection schema expects',
+  enum: 'Use one of the values allowed by the collection schema',
+  pattern: 'Change the value to match the pattern in the collection schema',
+  required: 'Add the field to the frontmatter',
+  minLength: 'Lengthen the value',
+  maxLength: 'Shorten the value'
+};
+
+const DEFAULT_CATEGORIES = ['gtm', 'SEO', 'vibe coding', 'OUT-OF-STEALTH'];
+
+// Files in a content collection only need the fields its schema requires;
+// other files need every field the built-in rules check
+const isFieldRequired = (context: SEOLintContext, ...keys: string[]): boolean =>
+  !context.collection || keys.some(key => context.collection?.schema.required?.includes(key));
+
+const notRequiredResult = (field: string, context: SEOLintContext): SEOLintRuleResult => ({
+  passed: true,
+  message: `${field} is not required by the ${context.collection?.name} collection schema`
+});
 
 const ignore = (..._args: unknown[]): void => {
   void _args;
@@ -44,42 +123,52 @@ const ignore = (..._args: unknown[]): void => {
 
 // SEO Rules Implementation
 export const SEO_RULES: SEOLintRule[] = [
-  // Must-Have Front Matter Rules (SEO-001 to SEO-006)
+  // Must-Have Front Matter Rules (SEO-001 to SEO-007)
   {
     id: 'SEO-001',
     name: 'Title Requirements',
     description: 'Title present, 45-70 characters, uses primary keyword near start',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(content);
+    defaultOptions: { minLength: 45, maxLength: 70 },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
+      ignore(content, filename);
+      const location = context.document.locateFrontmatterKey('title');
+      const { minLength, maxLength } = context.options;
       if (!frontmatter.title) {
         return {
           passed: false,
+          ...location,
           message: 'Title is required in frontmatter',
-          suggestion: 'Add a title field with 45-70 characters'
+          suggestion: `Add a title field with ${minLength}-${maxLength} characters`
         };
       }
       
       const titleLength = frontmatter.title.length;
-      if (titleLength < 45 || titleLength > 70) {
+      if (titleLength < minLength || titleLength > maxLength) {
         return {
           passed: false,
-          message: `Title length is ${titleLength} chars (should be 45-70)`,
-          suggestion: titleLength < 45 ? 'Make title longer and more descriptive' : 'Shorten title for better SEO'
+          ...location,
+          message: `Title length is ${titleLength} chars (should be ${minLength}-${maxLength})`,
+          suggestion: titleLength < minLength ? 'Make title longer and more descriptive' : 'Shorten title for better SEO'
         };
       }
       
-      // Check for primary keyword in first half of title
-      const firstHalf = frontmatter.title.toLowerCase().substring(0, titleLength / 2);
-      const hasKeyword = PRIMARY_KEYWORDS.some(keyword => 
-        firstHalf.includes(keyword.toLowerCase())
+      const primaryKeywords = context.keywords.primary;
+      if (primaryKeywords.length === 0) {
+        return { passed: true, message: `Title validated: ${titleLength} chars` };
+      }
+
+      // A primary keyword has to start in the first half of the title
+      const hasKeyword = primaryKeywords.some(keyword =>
+        context.keywordMatcher.find(frontmatter.title, keyword).some(match => match.index < titleLength / 2)
       );
       
       if (!hasKeyword) {
         return {
           passed: false,
+          ...location,
           message: 'No primary keyword found in title start',
-          suggestion: `Include one of these keywords near the beginning: ${PRIMARY_KEYWORDS.join(', ')}`
+          suggestion: `Include one of these keywords near the beginning: ${primaryKeywords.join(', ')}`
         };
       }
       
@@ -92,11 +181,16 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Date Format',
     description: 'Date present in ISO YYYY-MM-DD format',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
       ignore(content);
+      const location = context.document.locateFrontmatterKey('date');
       if (!frontmatter.date) {
+        if (!isFieldRequired(context, 'date')) {
+          return notRequiredResult('Date', context);
+        }
         return {
           passed: false,
+          ...location,
           message: 'Date is required in frontmatter',
           suggestion: 'Add date field in YYYY-MM-DD format'
         };
@@ -106,6 +200,7 @@ export const SEO_RULES: SEOLintRule[] = [
       if (!dateRegex.test(frontmatter.date)) {
         return {
           passed: false,
+          ...location,
           message: `Invalid date format: ${frontmatter.date}`,
           suggestion: 'Use YYYY-MM-DD format (e.g., 2025-01-15)'
         };
@@ -120,21 +215,28 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Category Validation',
     description: 'Category present and from allowed list',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(content);
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
+      ignore(content, filename);
+      const location = context.document.locateFrontmatterKey('category');
+      const allowedCategories = context.categories;
       if (!frontmatter.category) {
+        if (!isFieldRequired(context, 'category')) {
+          return notRequiredResult('Category', context);
+        }
         return {
           passed: false,
+          ...location,
           message: 'Category is required in frontmatter',
-          suggestion: `Add category field. Allowed: ${ALLOWED_CATEGORIES.join(', ')}`
+          suggestion: `Add category field. Allowed: ${allowedCategories.join(', ')}`
         };
       }
       
-      if (!ALLOWED_CATEGORIES.includes(frontmatter.category)) {
+      if (allowedCategories.length > 0 && !allowedCategories.includes(frontmatter.category)) {
         return {
           passed: false,
+          ...location,
           message: `Invalid category: ${frontmatter.category}`,
-          suggestion: `Use one of: ${ALLOWED_CATEGORIES.join(', ')}`
+          suggestion: `Use one of: ${allowedCategories.join(', ')}`
         };
       }
       
@@ -147,34 +249,44 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Summary Requirements',
     description: 'Summary present, 120-160 characters, acts as meta description',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(content);
+    defaultOptions: { minLength: 120, maxLength: 160 },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
+      ignore(content, filename);
+      const location = context.document.locateFrontmatterKey('summary');
+      const { minLength, maxLength } = context.options;
       if (!frontmatter.summary) {
         return {
           passed: false,
+          ...location,
           message: 'Summary is required in frontmatter',
-          suggestion: 'Add summary field with 120-160 characters describing the content'
+          suggestion: `Add summary field with ${minLength}-${maxLength} characters describing the content`
         };
       }
       
       const summaryLength = frontmatter.summary.length;
-      if (summaryLength < 120 || summaryLength > 160) {
+      if (summaryLength < minLength || summaryLength > maxLength) {
         return {
           passed: false,
-          message: `Summary length is ${summaryLength} chars (should be 120-160)`,
-          suggestion: summaryLength < 120 ? 'Expand summary with more detail' : 'Shorten summary for better meta description'
+          ...location,
+          message: `Summary length is ${summaryLength} chars (should be ${minLength}-${maxLength})`,
+          suggestion: summaryLength < minLength ? 'Expand summary with more detail' : 'Shorten summary for better meta description'
         };
       }
       
       // Check for keywords in summary
-      const summaryLower = frontmatter.summary.toLowerCase();
-      const hasKeywords = [...PRIMARY_KEYWORDS, ...SECONDARY_KEYWORDS].some(keyword =>
-        summaryLower.includes(keyword.toLowerCase())
+      const targetKeywords = [...context.keywords.primary, ...context.keywords.secondary];
+      if (targetKeywords.length === 0) {
+        return { passed: true, message: `Summary validated: ${summaryLength} chars` };
+      }
+
+      const hasKeywords = targetKeywords.some(keyword =>
+        context.keywordMatcher.contains(frontmatter.summary, keyword)
       );
       
       if (!hasKeywords) {
         return {
           passed: false,
+          ...location,
           message: 'No target keywords found in summary',
           suggestion: 'Include 1-2 relevant keywords naturally in the summary'
         };
@@ -187,25 +299,54 @@ export const SEO_RULES: SEOLintRule[] = [
   {
     id: 'SEO-005',
     name: 'Read Time',
-    description: 'Readtime present (e.g., "3 min read")',
+    description: 'Readtime present (e.g., "3 min read") and close to the time the body takes to read',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(content);
+    // Minutes the declared Readtime may differ from the computed one
+    defaultOptions: { wordsPerMinute: 200, tolerance: 1 },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
+      ignore(filename);
+      const { document, options } = context;
+      const key = frontmatter.readtime && !frontmatter.Readtime ? 'readtime' : 'Readtime';
+      const location = document.locateFrontmatterKey(key);
+      // Prose only: code blocks and frontmatter do not count towards reading time
+      const words = countWords(document.proseText());
+      const minutes = estimateReadingTime(words, options.wordsPerMinute);
+      const expected = `${minutes} min read`;
+      const basis = `${words} words at ${options.wordsPerMinute} wpm`;
+
       if (!frontmatter.Readtime && !frontmatter.readtime) {
+        if (!isFieldRequired(context, 'Readtime', 'readtime')) {
+          return notRequiredResult('Readtime', context);
+        }
         return {
           passed: false,
+          ...location,
           message: 'Readtime is required in frontmatter',
-          suggestion: 'Add Readtime field (e.g., "5 min read")'
+          suggestion: `Add Readtime: "${expected}" (${basis})`,
+          fix: insertFrontmatterLine(content, document, `Readtime: "${expected}"`)
         };
       }
       
-      const readtime = frontmatter.Readtime || frontmatter.readtime;
+      const readtime = String(frontmatter.Readtime || frontmatter.readtime);
       const readtimeRegex = /^\d+\s+min\s+read$/;
       if (!readtimeRegex.test(readtime)) {
         return {
           passed: false,
+          ...location,
           message: `Invalid readtime format: ${readtime}`,
-          suggestion: 'Use format like "3 min read"'
+          suggestion: `Use "${expected}" (${basis})`,
+          fix: replaceFrontmatterLine(content, location, key, `${key}: "${expected}"`)
+        };
+      }
+
+      const declared = Number.parseInt(readtime, 10);
+      if (Math.abs(declared - minutes) > options.tolerance) {
+        return {
+          passed: false,
+          ...location,
+          message: `Readtime "${readtime}" does not match the body (${basis} is about ${expected})`,
+          suggestion: `Change Readtime to "${expected}"`,
+          fix: replaceFrontmatterLine(content, location, key, `${key}: "${expected}"`)
         };
       }
       
@@ -218,29 +359,35 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Filename Validation',
     description: 'Filename is date-prefixed slug matching title gist',
     severity: 'error',
-    check: (content: string, frontmatter: any, filename?: string): SEOLintRuleResult => {
+    defaultOptions: { pattern: '^\\d{4}-\\d{2}-\\d{2}-.+\\.md$' },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
       if (!filename) {
         return {
           passed: false,
+          line: 1,
+          column: 1,
           message: 'Filename not provided for validation',
           suggestion: 'Ensure filename follows YYYY-MM-DD-slug.md format'
         };
       }
       
-      const filenameRegex = /^\d{4}-\d{2}-\d{2}-.+\.md$/;
+      const filenameRegex = new RegExp(context.options.pattern);
       if (!filenameRegex.test(filename)) {
         return {
           passed: false,
+          line: 1,
+          column: 1,
           message: `Invalid filename format: ${filename}`,
-          suggestion: 'Use YYYY-MM-DD-slug.md format'
+          suggestion: `Rename the file to match ${context.options.pattern}`
         };
       }
       
       // Extract date from filename and compare with frontmatter
-      const fileDate = filename.substring(0, 10);
-      if (frontmatter.date && frontmatter.date !== fileDate) {
+      const fileDate = filename.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+      if (fileDate && frontmatter.date && frontmatter.date !== fileDate) {
         return {
           passed: false,
+          ...context.document.locateFrontmatterKey('date'),
           message: `Filename date (${fileDate}) doesn't match frontmatter date (${frontmatter.date})`,
           suggestion: 'Ensure filename date matches frontmatter date'
         };
@@ -250,25 +397,56 @@ export const SEO_RULES: SEOLintRule[] = [
     }
   },
   
+  {
+    id: 'SEO-007',
+    name: 'Collection Schema',
+    description: 'Frontmatter matches the schema of the content collection the file belongs to',
+    severity: 'error',
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, filename);
+      const { collection, document } = context;
+      if (!collection) {
+        return { passed: true, message: 'No content collection matches this file' };
+      }
+
+      const violations = validateFrontmatter(frontmatter, collection.schema);
+      if (violations.length > 0) {
+        return violations.map(violation => ({
+          passed: false,
+          // Nested values are reported on their top-level key
+          ...document.locateFrontmatterKey(violation.path.split(/[.[]/)[0]),
+          message: `${violation.message} (${collection.name} collection)`,
+          suggestion: SCHEMA_SUGGESTIONS[violation.keyword]
+        }));
+      }
+
+      return { passed: true, message: `Frontmatter matches the ${collection.name} collection schema` };
+    }
+  },
+
   // Content Structure Rules (SEO-010 to SEO-014)
   {
     id: 'SEO-010',
     name: 'Single H1 Rule',
     description: 'Exactly one H1 from frontmatter title, no # H1 in body',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      const h1Matches = content.match(/^# /gm);
-      if (h1Matches && h1Matches.length > 0) {
-        return {
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, filename);
+      const { document } = context;
+      const h1Headings = document.headings().filter(heading => heading.depth === 1);
+      if (h1Headings.length > 0) {
+        return h1Headings.map(heading => ({
           passed: false,
-          message: `Found ${h1Matches.length} H1 heading(s) in content body`,
+          ...document.locate(heading),
+          message: `H1 heading in content body: "${document.textOf(heading)}"`,
           suggestion: 'Remove H1 headings from body. H1 comes from frontmatter title.'
-        };
+        }));
       }
       
       if (!frontmatter.title) {
         return {
           passed: false,
+          ...context.document.locateFrontmatterKey('title'),
           message: 'No H1 available - missing title in frontmatter',
           suggestion: 'Add title in frontmatter to serve as H1'
         };
@@ -283,25 +461,31 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Heading Hierarchy',
     description: 'Use hierarchical headings H2/H3, no jumps',
     severity: 'warning',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      const headings = content.match(/^#{2,6} .+$/gm) || [];
-      const headingLevels = headings.map(h => h.match(/^#+/)?.[0].length || 0);
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const headings = context.document.headings().filter(heading => heading.depth >= 2);
+      const headingLevels = headings.map(heading => heading.depth);
+      const jumps: SEOLintRuleResult[] = [];
       
       for (let i = 1; i < headingLevels.length; i++) {
         const current = headingLevels[i];
         const previous = headingLevels[i - 1];
         
         if (current > previous + 1) {
-          return {
+          jumps.push({
             passed: false,
+            ...context.document.locate(headings[i]),
             message: `Heading jump detected: H${previous} to H${current}`,
             suggestion: 'Use sequential heading levels (H2 → H3, not H2 → H4)'
-          };
+          });
         }
       }
       
-      return { passed: true, message: `Heading hierarchy validated (${headings.length} headings)` };
+      if (jumps.length > 0) {
+        return jumps;
+      }
+      
+      return { passed: true, message: `Heading hierarchy validated (${headingLevels.length} headings)` };
     }
   },
   
@@ -310,21 +494,29 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Keyword in Opening',
     description: 'First 100 words mention primary keyword once, naturally',
     severity: 'warning',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      // Remove frontmatter and get first 100 words
-      const bodyContent = content.replace(/^---[\s\S]*?---/m, '').trim();
-      const words = bodyContent.split(/\s+/).slice(0, 100).join(' ').toLowerCase();
-      
-      const hasKeyword = PRIMARY_KEYWORDS.some(keyword =>
-        words.includes(keyword.toLowerCase())
+    defaultOptions: { wordCount: 100 },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
+      ignore(content, frontmatter, filename);
+      const location = context.document.locateBody();
+      const primaryKeywords = context.keywords.primary;
+      if (primaryKeywords.length === 0) {
+        return { passed: true, message: 'No primary keywords configured' };
+      }
+
+      // Opening words of the body prose (frontmatter and code excluded)
+      const { wordCount } = context.options;
+      const words = context.document.proseText().split(/\s+/).slice(0, wordCount).join(' ');
+      
+      const hasKeyword = primaryKeywords.some(keyword =>
+        context.keywordMatcher.contains(words, keyword)
       );
       
       if (!hasKeyword) {
         return {
           passed: false,
-          message: 'No primary keyword found in first 100 words',
-          suggestion: `Naturally include a primary keyword: ${PRIMARY_KEYWORDS.slice(0, 3).join(', ')}`
+          ...location,
+          message: `No primary keyword found in first ${wordCount} words`,
+          suggestion: `Naturally include a primary keyword: ${primaryKeywords.slice(0, 3).join(', ')}`
         };
       }
       
@@ -337,14 +529,16 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Internal Linking',
     description: 'At least one internal link to relevant post/page',
     severity: 'warning',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      // Look for internal links (relative paths or same domain)
-      const internalLinks = content.match(/\[([^\]]+)\]\((\/[^)]+|#[^)]+)\)/g) || [];
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult => {
+      ignore(content, frontmatter, filename);
+      const location = context.document.locateBody();
+      // Internal links are relative paths or in-page anchors
+      const internalLinks = context.document.links().filter(link => /^[/#]./.test(link.url));
       
       if (internalLinks.length === 0) {
         return {
           passed: false,
+          ...location,
           message: 'No internal links found',
           suggestion: 'Add at least one internal link to related content'
         };
@@ -359,62 +553,135 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Descriptive Link Text',
     description: 'External links use descriptive anchor text',
     severity: 'warning',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      const links = content.match(/\[([^\]]+)\]\([^)]+\)/g) || [];
-      const badLinks = [];
-      
-      for (const link of links) {
-        const linkText = link.match(/\[([^\]]+)\]/)?.[1] || '';
-        if (/^(https?:\/\/|www\.|click here|here|link|read more)$/i.test(linkText.trim())) {
-          badLinks.push(linkText);
-        }
-      }
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const { document } = context;
+      const links = document.links();
+      const badLinks = links.filter(link =>
+        /^(https?:\/\/\S*|www\.\S*|click here|here|link|read more)$/i.test(document.textOf(link).trim())
+      );
       
       if (badLinks.length > 0) {
-        return {
+        return badLinks.map(link => ({
           passed: false,
-          message: `Found ${badLinks.length} non-descriptive link(s)`,
+          ...document.locate(link),
+          message: `Non-descriptive link text "${document.textOf(link).trim()}"`,
           suggestion: 'Use descriptive anchor text instead of URLs or "click here"'
-        };
+        }));
       }
       
       return { passed: true, message: `Link text validated (${links.length} links)` };
     }
   },
   
-  // Media & Accessibility Rules (SEO-020 to SEO-021)
+  // Media & Accessibility Rules (SEO-020 to SEO-025; SEO-021 and SEO-022 read
+  // image files and live in corpus-rules.ts)
   {
     id: 'SEO-020',
     name: 'Image Alt Text',
     description: 'Images have meaningful alt text',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      const images = content.match(/!\[([^\]]*)\]\([^)]+\)/g) || [];
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const images = context.document.images();
       if (images.length === 0) {
         return { passed: true, message: 'No images found - validation passed' };
       }
       
-      const missingAlt = [];
-      for (const img of images) {
-        const altText = img.match(/!\[([^\]]*)\]/)?.[1] || '';
-        if (altText.trim().length === 0) {
-          missingAlt.push(img);
-        }
-      }
+      const missingAlt = images.filter(image => !image.alt || image.alt.trim().length === 0);
       
       if (missingAlt.length > 0) {
-        return {
+        return missingAlt.map(image => ({
           passed: false,
-          message: `${missingAlt.length} image(s) missing alt text`,
+          ...context.document.locate(image),
+          message: `Image ${image.url} is missing alt text`,
           suggestion: 'Add descriptive alt text for all images'
-        };
+        }));
       }
       
       return { passed: true, message: `Image alt text validated (${images.length} images)` };
     }
   },
+
+  {
+    id: 'SEO-023',
+    name: 'Modern Image Formats',
+    description: 'Raster images use WebP or AVIF instead of JPEG, PNG or GIF',
+    severity: 'info',
+    defaultOptions: { legacyFormats: ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.tif', '.tiff'] },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const legacyFormats = (context.options.legacyFormats as string[]).map(format => format.toLowerCase());
+      const images = getImageReferences(context.document);
+      const legacyImages = images.filter(image =>
+        legacyFormats.includes(path.posix.extname(getImagePathname(image.src)).toLowerCase())
+      );
+
+      if (legacyImages.length > 0) {
+        return legacyImages.map(image => ({
+          passed: false,
+          ...image.location,
+          message: `Image ${image.src} uses ${path.posix.extname(getImagePathname(image.src)).slice(1).toUpperCase()}`,
+          suggestion: 'Serve it as WebP or AVIF, which are usually 25-50% smaller at the same quality'
+        }));
+      }
+
+      return { passed: true, message: `Image formats validated (${images.length} images)` };
+    }
+  },
+
+  {
+    id: 'SEO-024',
+    name: 'Image Dimensions',
+    description: 'HTML and MDX images declare width and height to avoid layout shift',
+    severity: 'warning',
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      // Markdown image syntax cannot carry dimensions, so only tags are checked
+      const taggedImages = getImageReferences(context.document).filter(image => image.kind !== 'markdown');
+      const missing = taggedImages.filter(image => !image.hasWidth || !image.hasHeight);
+
+      if (missing.length > 0) {
+        return missing.map(image => ({
+          passed: false,
+          ...image.location,
+          message: `Image ${image.src} is missing ${[!image.hasWidth && 'width', !image.hasHeight && 'height'].filter(Boolean).join(' and ')}`,
+          suggestion: 'Set width and height so the browser can reserve space before the image loads'
+        }));
+      }
+
+      return { passed: true, message: `Image dimensions validated (${taggedImages.length} tagged images)` };
+    }
+  },
+
+  {
+    id: 'SEO-025',
+    name: 'Alt Text Not Filename',
+    description: 'Alt text describes the image instead of repeating its filename',
+    severity: 'warning',
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+      const images = getImageReferences(context.document).filter(image => image.alt && image.alt.trim());
+      const filenameAlts = images.filter(image => {
+        const alt = image.alt as string;
+        const basename = path.posix.basename(getImagePathname(image.src));
+        return /\.(png|jpe?g|gif|webp|avif|svg|bmp|tiff?)$/i.test(alt.trim()) ||
+          normalize(alt) === normalize(basename.replace(/\.[^.]+$/, ''));
+      });
+
+      if (filenameAlts.length > 0) {
+        return filenameAlts.map(image => ({
+          passed: false,
+          ...image.location,
+          message: `Alt text "${image.alt}" repeats the filename of ${image.src}`,
+          suggestion: 'Describe what the image shows and why it is on the page'
+        }));
+      }
+
+      return { passed: true, message: `Alt text validated (${images.length} images)` };
+    }
+  },
   
   // Technical Meta Rules (SEO-030 to SEO-031)
   {
@@ -422,11 +689,15 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'No Placeholder Content',
     description: 'No placeholder links or lorem ipsum',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      const placeholders = [
-        /\[([^\]]+)\]\(#\)/g, // [text](#)
-        /\[([^\]]+)\]\(\/todo\)/gi, // [text](/todo)
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const { document } = context;
+      const placeholderUrls = [
+        /^#$/, // [text](#)
+        /^\/todo$/i, // [text](/todo)
+        /example\.com/i
+      ];
+      const placeholderText = [
         /example\.com/gi,
         /lorem\s+ipsum/gi,
         /\btbd\b/gi,
@@ -434,20 +705,23 @@ export const SEO_RULES: SEOLintRule[] = [
         /\btodo\b(?!:)/gi // TODO but not TODO:
       ];
       
-      const found = [];
-      for (const pattern of placeholders) {
-        const matches = content.match(pattern);
-        if (matches) {
-          found.push(...matches);
-        }
+      const found: Array<{ match: string; location: SEOLintLocation }> = [];
+      document.links()
+        .filter(link => placeholderUrls.some(pattern => pattern.test(link.url)))
+        .forEach(link => found.push({ match: `[${document.textOf(link)}](${link.url})`, location: document.locate(link) }));
+
+      for (const pattern of placeholderText) {
+        found.push(...document.findText(pattern));
       }
+      found.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
       
       if (found.length > 0) {
-        return {
+        return found.map(item => ({
           passed: false,
-          message: `Found ${found.length} placeholder(s): ${found.slice(0, 3).join(', ')}`,
+          ...item.location,
+          message: `Placeholder content: ${item.match}`,
           suggestion: 'Replace placeholder content with real links and text'
-        };
+        }));
       }
       
       return { passed: true, message: 'No placeholder content found' };
@@ -460,31 +734,111 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Sentence Length',
     description: 'Sentences under 25-30 words in first two paragraphs',
     severity: 'info',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      const bodyContent = content.replace(/^---[\s\S]*?---/m, '').trim();
-      const paragraphs = bodyContent.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+    defaultOptions: { maxWords: 30 },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const { maxWords } = context.options;
+      const { document } = context;
+      const paragraphs = document.paragraphs()
+        .filter(paragraph => document.textOf(paragraph).trim().length > 0);
       
       if (paragraphs.length < 2) {
         return { passed: true, message: 'Not enough paragraphs for sentence analysis' };
       }
       
-      const firstTwoParagraphs = paragraphs.slice(0, 2).join(' ');
-      const sentences = firstTwoParagraphs.split(/[.!?]+/).filter(s => s.trim().length > 0);
+      const openingSentences = paragraphs.slice(0, 2).map(paragraph => ({
+        paragraph,
+        sentences: document.textOf(paragraph).split(/[.!?]+/).filter(s => s.trim().length > 0)
+      }));
+      const sentences = openingSentences.flatMap(entry => entry.sentences);
+      const countWords = (sentence: string) => sentence.trim().split(/\s+/).length;
       
-      const longSentences = sentences.filter(s => s.split(/\s+/).length > 30);
+      const longSentences = openingSentences.flatMap(entry =>
+        entry.sentences
+          .filter(sentence => countWords(sentence) > maxWords)
+          .map(sentence => ({ paragraph: entry.paragraph, sentence: sentence.trim().replace(/\s+/g, ' ') }))
+      );
       
       if (longSentences.length > 0) {
-        return {
+        return longSentences.map(({ paragraph, sentence }) => ({
           passed: false,
-          message: `${longSentences.length} sentence(s) over 30 words in opening`,
+          ...document.locate(paragraph),
+          message: `Sentence of ${countWords(sentence)} words in opening (limit ${maxWords}): "${sentence.length > 60 ? `${sentence.slice(0, 60)}...` : sentence}"`,
           suggestion: 'Break long sentences into shorter ones for better readability'
-        };
+        }));
       }
       
       return { passed: true, message: `Sentence length validated (${sentences.length} sentences)` };
     }
   },
+
+  {
+    id: 'SEO-041',
+    name: 'Readability',
+    description: 'Body reads at or below the target grade, with little passive voice and no wall-of-text paragraphs',
+    severity: 'warning',
+    defaultOptions: {
+      targetGrade: 9,
+      // Per content type (frontmatter `type` or parent directory), e.g. { docs: 12 }
+      targetGrades: {},
+      maxPassiveRatio: 0.15,
+      maxParagraphWords: 150,
+      // Shorter bodies give unstable scores and are not graded
+      minWords: 100
+    },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content);
+      const { targetGrade, targetGrades, maxPassiveRatio, maxParagraphWords, minWords } = context.options;
+      const { document } = context;
+      const readability = analyzeReadability(document);
+      const contentType = getContentType(context.filePath ?? filename, frontmatter);
+      const target: number = (contentType && targetGrades?.[contentType]) ?? targetGrade;
+      const failures: SEOLintRuleResult[] = [];
+
+      if (readability.words >= minWords && readability.fleschKincaidGrade > target) {
+        const hardest = [...readability.sections]
+          .filter(section => section.words > 0)
+          .sort((a, b) => b.fleschKincaidGrade - a.fleschKincaidGrade)[0];
+        failures.push({
+          passed: false,
+          ...document.locateBody(),
+          message: `Flesch-Kincaid grade ${readability.fleschKincaidGrade} is above the target of ${target}` +
+            `${contentType ? ` for ${contentType} content` : ''} (reading ease ${readability.fleschReadingEase})` +
+            (hardest?.heading ? `; hardest section: "${hardest.heading}" (grade ${hardest.fleschKincaidGrade})` : ''),
+          suggestion: 'Use shorter sentences and plainer words'
+        });
+      }
+
+      if (readability.words >= minWords && readability.passiveRatio > maxPassiveRatio) {
+        failures.push({
+          passed: false,
+          ...document.locateBody(),
+          message: `${readability.passiveSentences} of ${readability.sentences} sentences use passive voice ` +
+            `(${Math.round(readability.passiveRatio * 100)}%, limit ${Math.round(maxPassiveRatio * 100)}%)`,
+          suggestion: 'Rewrite passive sentences so the subject does the action'
+        });
+      }
+
+      document.paragraphs()
+        .map(paragraph => ({ paragraph, words: countWords(document.textOf(paragraph)) }))
+        .filter(({ words }) => words > maxParagraphWords)
+        .forEach(({ paragraph, words }) => failures.push({
+          passed: false,
+          ...document.locate(paragraph),
+          message: `Paragraph of ${words} words (limit ${maxParagraphWords})`,
+          suggestion: 'Split long paragraphs so readers can scan the page'
+        }));
+
+      if (failures.length > 0) {
+        return failures;
+      }
+
+      return {
+        passed: true,
+        message: `Readability validated (grade ${readability.fleschKincaidGrade}, reading ease ${readability.fleschReadingEase})`
+      };
+    }
+  },
   
   // Prohibited Patterns (SEO-050 to SEO-052)
   {
@@ -492,32 +846,49 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Markdown Syntax',
     description: 'No broken Markdown syntax',
     severity: 'error',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      const issues = [];
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(frontmatter, filename);
+      const { document } = context;
+      const issues: Array<{ issue: string; location: SEOLintLocation }> = [];
+      const paragraphs = document.paragraphs();
+      const textOf = (paragraph: Paragraph) => document.textOf(paragraph);
       
-      // Unclosed links
-      if (content.match(/\[[^\]]*\n/) || content.match(/\]\([^)]*\n/)) {
-        issues.push('Unclosed link syntax');
+      // Unclosed links survive parsing as literal brackets in paragraph text
+      const unclosedLink = paragraphs.find(paragraph =>
+        /\[[^\]]*\n/.test(textOf(paragraph)) || /\]\([^)]*\n/.test(textOf(paragraph))
+      );
+      if (unclosedLink) {
+        issues.push({ issue: 'Unclosed link syntax', location: document.locate(unclosedLink) });
       }
       
-      // Unclosed code blocks
-      const codeBlocks = content.match(/```/g) || [];
-      if (codeBlocks.length % 2 !== 0) {
-        issues.push('Unclosed code block');
+      // Unclosed code blocks: the fence runs to the end of the document
+      const unclosedFence = document.codeBlocks().find(code => {
+        const source = content.slice(code.position?.start.offset, code.position?.end.offset);
+        const fence = source.match(/^\s*(`{3,}|~{3,})/)?.[1];
+        if (!fence) {
+          return false;
+        }
+        const lines = source.trimEnd().split(/\r?\n/);
+        return lines.length < 2 || !lines[lines.length - 1].trim().startsWith(fence);
+      });
+      if (unclosedFence) {
+        issues.push({ issue: 'Unclosed code block', location: document.locate(unclosedFence) });
       }
       
-      // Malformed headings
-      if (content.match(/^#{7,}/m)) {
-        issues.push('Invalid heading level (H7+)');
+      // Malformed headings are parsed as paragraphs
+      const invalidHeading = paragraphs.find(paragraph => /^#{7,}/.test(textOf(paragraph)));
+      if (invalidHeading) {
+        issues.push({ issue: 'Invalid heading level (H7+)', location: document.locate(invalidHeading) });
       }
       
       if (issues.length > 0) {
-        return {
+        issues.sort((a, b) => a.location.line - b.location.line);
+        return issues.map(item => ({
           passed: false,
-          message: `Markdown syntax issues: ${issues.join(', ')}`,
+          ...item.location,
+          message: `Markdown syntax issue: ${item.issue}`,
           suggestion: 'Fix Markdown syntax errors'
-        };
+        }));
       }
       
       return { passed: true, message: 'Markdown syntax validated' };
@@ -529,63 +900,152 @@ export const SEO_RULES: SEOLintRule[] = [
     name: 'Keyword Density',
     description: 'Keyword density under 2.5%',
     severity: 'warning',
-    check: (content: string, frontmatter: any): SEOLintRuleResult => {
-      ignore(frontmatter);
-      const bodyContent = content.replace(/^---[\s\S]*?---/m, '').toLowerCase();
+    defaultOptions: { maxDensity: 2.5 },
+    check: (content: string, frontmatter: any, filename: string | undefined, context: SEOLintContext): SEOLintRuleResult | SEOLintRuleResult[] => {
+      ignore(content, frontmatter, filename);
+      const bodyContent = context.document.proseText();
       const words = bodyContent.split(/\s+/).filter(w => w.length > 2);
       const totalWords = words.length;
+      if (totalWords === 0) {
+        return { passed: true, message: 'No body text to measure keyword density' };
+      }
       
-      for (const keyword of PRIMARY_KEYWORDS) {
-        const keywordCount = (bodyContent.match(new RegExp(keyword.toLowerCase(), 'g')) || []).length;
+      const overused: SEOLintRuleResult[] = [];
+      for (const keyword of context.keywords.primary) {
+        const keywordCount = context.keywordMatcher.count(bodyContent, keyword);
         const density = (keywordCount / totalWords) * 100;
         
-        if (density > 2.5) {
-          return {
+        if (density > context.options.maxDensity) {
+          const [firstMention] = context.document.findText(text => context.keywordMatcher.find(text, keyword));
+          overused.push({
             passed: false,
-            message: `Keyword "${keyword}" density is ${density.toFixed(1)}% (should be < 2.5%)`,
+            ...(firstMention?.location ?? context.document.locateBody()),
+            message: `Keyword "${keyword}" density is ${density.toFixed(1)}% (should be < ${context.options.maxDensity}%)`,
             suggestion: 'Reduce keyword repetition and vary your language'
-          };
+          });
         }
       }
       
+      if (overused.length > 0) {
+        return overused;
+      }
+      
       return { passed: true, message: 'Keyword density within acceptable range' };
     }
   }
 ];
 
+// loadConfig() already applies presets; configs passed straight to the API may not
+const resolveConfig = (config?: GTMConfig): GTMConfig | undefined =>
+  config ? resolvePresets(config) : undefined;
+
+const activeRulesCache = new WeakMap<GTMConfig, SEOLintRule[]>();
+
+const SEO_AND_GEO_RULES = [...SEO_RULES, ...GEO_RULES];
+
+// Built-in rules, GEO rules when geo.optimizeForAI is set, and rules
+// registered by plugins in gtm.config.js and its presets
+export const getActiveRules = (config?: GTMConfig): SEOLintRule[] => {
+  const resolved = resolveConfig(config);
+  const builtInRules = resolved?.geo?.optimizeForAI ? SEO_AND_GEO_RULES : SEO_RULES;
+  if (!resolved?.plugins?.length) {
+    return builtInRules;
+  }
+
+  const cached = activeRulesCache.get(resolved);
+  if (cached) {
+    return cached;
+  }
+
+  const rules = [...builtInRules];
+  const seen = new Set(rules.map(rule => rule.id));
+  for (const rule of getPluginRules(resolved)) {
+    if (seen.has(rule.id)) {
+      throw new Error(`Duplicate rule id "${rule.id}" registered by plugin`);
+    }
+    seen.add(rule.id);
+    rules.push(rule);
+  }
+
+  activeRulesCache.set(resolved, rules);
+  return rules;
+};
+
 // Rule lookup by ID
-export const getRuleById = (id: string): SEOLintRule | undefined => {
-  return SEO_RULES.find(rule => rule.id === id);
+export const getRuleById = (id: string, config?: GTMConfig): SEOLintRule | undefined => {
+  return getActiveRules(config).find(rule => rule.id === id);
 };
 
 // Get rules by severity
-export const getRulesBySeverity = (severity: 'error' | 'warning' | 'info'): SEOLintRule[] => {
-  return SEO_RULES.filter(rule => rule.severity === severity);
+export const getRulesBySeverity = (severity: 'error' | 'warning' | 'info', config?: GTMConfig): SEOLintRule[] => {
+  return getActiveRules(config).filter(rule => rule.severity === severity);
 };
 
-// Get all rule IDs
-export const getAllRuleIds = (): string[] => {
-  return SEO_RULES.map(rule => rule.id);
+// Get all rule IDs, including corpus rules. GEO rule IDs are always known so
+// presets and config.rules can configure them while geo.optimizeForAI is off.
+export const getAllRuleIds = (config?: GTMConfig): string[] => {
+  const ids = [...getActiveRules(config), ...CORPUS_RULES].map(rule => rule.id);
+  return [...ids, ...GEO_RULES.map(rule => rule.id).filter(id => !ids.includes(id))];
 };
 
 export interface LintContentOptions {
   filePath?: string;
   filename?: string;
   frontmatter?: Record<string, any>;
+  config?: GTMConfig;
+  // Reuse results for unchanged files (see LintCache)
+  cache?: LintCache;
 }
 
-export function lintContent(rawContent: string, filename?: string): SEOLintResult[];
-export function lintContent(rawContent: string, options?: LintContentOptions): SEOLintResult[];
-export function lintContent(
-  rawContent: string,
-  optionsOrFilename?: LintContentOptions | string
-): SEOLintResult[] {
-  const normalizedOptions: LintContentOptions =
-    typeof optionsOrFilename === 'string'
-      ? { filename: optionsOrFilename }
-      : optionsOrFilename ?? {};
+const toKeywordList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [];
+};
+
+// Resolve keyword lists, keyword matching and categories for one document.
+// Site-level values come from gtm.config.js; `focusKeyword` / `keywords`
+// frontmatter replace the primary list.
+export const resolveLintContext = (
+  document: MarkdownDocument,
+  frontmatter: Record<string, any> = {},
+  config?: GTMConfig
+): SEOLintContext => {
+  const keywordConfig = config?.seo?.keywords;
+  const documentKeywords = [
+    ...toKeywordList(frontmatter.focusKeyword),
+    ...toKeywordList(frontmatter.keywords)
+  ];
+
+  return {
+    document,
+    keywords: {
+      primary: documentKeywords.length > 0
+        ? documentKeywords
+        : keywordConfig?.primary ?? DEFAULT_PRIMARY_KEYWORDS,
+      secondary: keywordConfig?.secondary ?? DEFAULT_SECONDARY_KEYWORDS
+    },
+    keywordMatcher: createKeywordMatcher(keywordConfig),
+    categories: config?.content?.categories ?? DEFAULT_CATEGORIES,
+    siteUrl: config?.seo?.siteUrl,
+    options: {}
+  };
+};
 
-  const { frontmatter: providedFrontmatter } = normalizedOptions;
+const runLint = (
+  rawContent: string,
+  normalizedOptions: LintContentOptions
+): { results: SEOLintResult[]; unusedSuppressions: SEOLintUnusedSuppression[]; readability: ReadabilityAnalysis } => {
+  const { frontmatter: providedFrontmatter, cache } = normalizedOptions;
+  const cacheKey = normalizedOptions.filePath || normalizedOptions.filename;
+  const cached = cache && cacheKey ? cache.get(cacheKey, rawContent) : undefined;
+  if (cached) {
+    return cached;
+  }
 
   let frontmatter: Record<string, any> = providedFrontmatter ?? {};
   if (!providedFrontmatter) {
@@ -601,47 +1061,151 @@ export function lintContent(
     normalizedOptions.filename ||
     (normalizedOptions.filePath ? path.basename(normalizedOptions.filePath) : undefined);
 
-  return SEO_RULES.map(rule => {
-    const result = rule.check(rawContent, frontmatter, filename);
-    return {
+  // Parse once; every rule queries the same tree
+  const document = parseMarkdown(rawContent, { filename });
+  const config = resolveConfig(normalizedOptions.config);
+  const collection = normalizedOptions.filePath ? findCollection(normalizedOptions.filePath, config) : undefined;
+  const context = {
+    ...resolveLintContext(document, frontmatter, config),
+    filePath: normalizedOptions.filePath,
+    collection
+  };
+  // A collection's own rule settings override config.rules for its files
+  const configuredRules = resolveRuleSettings(
+    getActiveRules(config),
+    collection?.rules ? mergeRules(config?.rules, collection.rules) : config?.rules,
+    getAllRuleIds(config)
+  );
+
+  // A rule may report several findings; an empty list means it passed
+  const results = configuredRules.flatMap(({ rule, severity, options }) => {
+    const outcome = rule.check(rawContent, frontmatter, filename, { ...context, options });
+    const findings = Array.isArray(outcome) ? outcome : [outcome];
+    const ruleResults = findings.length > 0 ? findings : [{ passed: true, message: 'No issues found' }];
+    return ruleResults.map(result => ({
       rule: rule.id,
       name: rule.name,
-      severity: rule.severity,
+      severity,
       ...result
-    };
+    }));
   });
+
+  const linted = { ...applySuppressions(rawContent, results), readability: analyzeReadability(document) };
+  if (cache && cacheKey) {
+    cache.set(cacheKey, rawContent, linted);
+  }
+  return linted;
+};
+
+export function lintContent(rawContent: string, filename?: string): SEOLintResult[];
+export function lintContent(rawContent: string, options?: LintContentOptions): SEOLintResult[];
+export function lintContent(
+  rawContent: string,
+  optionsOrFilename?: LintContentOptions | string
+): SEOLintResult[] {
+  const normalizedOptions: LintContentOptions =
+    typeof optionsOrFilename === 'string'
+      ? { filename: optionsOrFilename }
+      : optionsOrFilename ?? {};
+
+  return runLint(rawContent, normalizedOptions).results;
 }
 
-export const summarizeLintResults = (results: SEOLintResult[]): { summary: SEOLintSummary; score: number } => {
+export const summarizeLintResults = (
+  results: SEOLintResult[],
+  scoring?: ScoringConfig
+): { summary: SEOLintSummary; score: number; scoreBreakdown: RuleScore[] } => {
   const summary = results.reduce<SEOLintSummary>(
     (acc, result) => {
       if (result.passed) {
         acc.passed += 1;
+      } else if (result.suppressed) {
+        acc.suppressed += 1;
+      } else if (result.baselined) {
+        acc.baselined += 1;
       } else if (result.severity === 'error') {
         acc.errors += 1;
       } else if (result.severity === 'warning') {
         acc.warnings += 1;
+      } else {
+        acc.info += 1;
       }
       return acc;
     },
-    { errors: 0, warnings: 0, passed: 0 }
+    { errors: 0, warnings: 0, info: 0, passed: 0, suppressed: 0, baselined: 0 }
   );
 
-  const score = results.length > 0 ? (summary.passed / results.length) * 100 : 100;
-  return { summary, score };
+  return { summary, ...scoreResults(results, scoring) };
 };
 
 export const createLintReport = (
   rawContent: string,
   options: LintContentOptions = {}
 ): SEOLintReport => {
-  const results = lintContent(rawContent, options);
-  const { summary, score } = summarizeLintResults(results);
+  const { results, unusedSuppressions, readability } = runLint(rawContent, options);
 
   return {
     file: options.filePath || options.filename || 'unknown',
     results,
-    score,
-    summary
+    ...summarizeLintResults(results, resolveConfig(options.config)?.scoring),
+    unusedSuppressions,
+    readability
+  };
+};
+
+// Run corpus rules over every file at once. Returns results keyed by
+// ContentFile.path, with a passed result for each rule a file satisfies.
+export const lintCorpus = (
+  files: ContentFile[],
+  options: { config?: GTMConfig; siteFiles?: ContentFile[] } = {}
+): Map<string, SEOLintResult[]> => {
+  const config = resolveConfig(options.config);
+  const configuredRules = resolveRuleSettings(CORPUS_RULES, config?.rules, getAllRuleIds(config));
+  const resultsByFile = new Map<string, SEOLintResult[]>(files.map(file => [file.path, []]));
+
+  // Checked files replace their copy among the site files, which may be stale
+  // after --fix or a watch event
+  const checked = new Set(files.map(file => path.resolve(file.path)));
+  const siteFiles = [...files, ...(options.siteFiles ?? []).filter(file => !checked.has(path.resolve(file.path)))];
+
+  configuredRules.forEach(({ rule, severity, options: ruleOptions }) => {
+    const findings = rule.checkCorpus(files, { config, siteFiles, options: ruleOptions });
+
+    files.forEach(file => {
+      const fileFindings = findings.filter(finding => finding.file === file.path);
+      const ruleResults = fileFindings.length > 0
+        ? fileFindings.map(({ file: findingFile, ...result }) => {
+          ignore(findingFile);
+          return result;
+        })
+        : [{ passed: true, message: `${rule.name} validated` }];
+
+      resultsByFile.get(file.path)?.push(
+        ...ruleResults.map(result => ({ rule: rule.id, name: rule.name, severity, ...result }))
+      );
+    });
+  });
+
+  return resultsByFile;
+};
+
+// Merge corpus results into a document report. Suppressions are re-applied
+// over the combined results so inline directives cover corpus findings too.
+export const addCorpusResults = (
+  report: SEOLintReport,
+  rawContent: string,
+  corpusResults: SEOLintResult[],
+  scoring?: ScoringConfig
+): SEOLintReport => {
+  if (corpusResults.length === 0) {
+    return report;
+  }
+
+  const { results, unusedSuppressions } = applySuppressions(rawContent, [...report.results, ...corpusResults]);
+  return {
+    ...report,
+    results,
+    unusedSuppressions,
+    ...summarizeLintResults(results, scoring)
   };
 };
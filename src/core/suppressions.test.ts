@@ -0,0 +1,88 @@
+import { SEOLintResult } from '../types';
+import { applySuppressions, parseSuppressionDirectives } from './suppressions';
+
+const finding = (rule: string, line?: number): SEOLintResult => ({
+  rule,
+  name: rule,
+  severity: 'warning',
+  passed: false,
+  message: `${rule} finding`,
+  line
+});
+
+const suppressedRules = (content: string, results: SEOLintResult[]): string[] =>
+  applySuppressions(content, results).results
+    .filter(result => result.suppressed)
+    .map(result => `${result.rule}@${result.line ?? '-'}`);
+
+describe('parseSuppressionDirectives', () => {
+  it('reads Markdown and MDX comments with rule lists and reasons', () => {
+    const directives = parseSuppressionDirectives([
+      '<!-- gtm-disable SEO-010, SEO-011 -- legacy images -->',
+      '{/* gtm-disable-next-line */}',
+      '<!-- gtm-enable -->'
+    ].join('\n'));
+
+    expect(directives.map(({ type, rules, line }) => ({ type, rules, line }))).toEqual([
+      { type: 'disable', rules: ['SEO-010', 'SEO-011'], line: 1 },
+      { type: 'disable-next-line', rules: [], line: 2 },
+      { type: 'enable', rules: [], line: 3 }
+    ]);
+  });
+
+  it('skips directives inside code fences', () => {
+    const directives = parseSuppressionDirectives(['```md', '<!-- gtm-disable -->', '```'].join('\n'));
+    expect(directives).toEqual([]);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('returns results untouched when there are no directives', () => {
+    const results = [finding('SEO-010', 2)];
+    expect(applySuppressions('# Title', results)).toEqual({ results, unusedSuppressions: [] });
+  });
+
+  it('suppresses only the next line for disable-next-line', () => {
+    const content = ['<!-- gtm-disable-next-line SEO-010 -->', '![](/a.png)', '![](/b.png)'].join('\n');
+    expect(suppressedRules(content, [finding('SEO-010', 2), finding('SEO-010', 3), finding('SEO-011', 2)]))
+      .toEqual(['SEO-010@2']);
+  });
+
+  it('suppresses lines between disable and enable', () => {
+    const content = [
+      'Intro',
+      '<!-- gtm-disable SEO-010 -->',
+      '![](/a.png)',
+      '<!-- gtm-enable SEO-010 -->',
+      '![](/b.png)'
+    ].join('\n');
+
+    expect(suppressedRules(content, [finding('SEO-010', 3), finding('SEO-010', 5)])).toEqual(['SEO-010@3']);
+  });
+
+  it('covers the whole file, including document-level findings, when a disable is never closed', () => {
+    const content = ['# Title', '', '<!-- gtm-disable SEO-002 -->'].join('\n');
+    expect(suppressedRules(content, [finding('SEO-002'), finding('SEO-002', 1), finding('SEO-003')]))
+      .toEqual(['SEO-002@-', 'SEO-002@1']);
+  });
+
+  it('does not suppress document-level findings with disable-next-line', () => {
+    const content = ['<!-- gtm-disable-next-line SEO-002 -->', '# Title'].join('\n');
+    expect(suppressedRules(content, [finding('SEO-002')])).toEqual([]);
+  });
+
+  it('reports directives that suppressed nothing', () => {
+    const content = ['<!-- gtm-disable-next-line SEO-010 -->', 'Plain text'].join('\n');
+    const { unusedSuppressions } = applySuppressions(content, [{ ...finding('SEO-010', 2), passed: true }]);
+
+    expect(unusedSuppressions).toEqual([
+      {
+        line: 1,
+        column: 1,
+        directive: '<!-- gtm-disable-next-line SEO-010 -->',
+        rules: ['SEO-010'],
+        message: 'Unused gtm-disable-next-line directive (no problems reported for SEO-010)'
+      }
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+// Inline suppression directives for Markdown (<!-- gtm-disable -->) and MDX ({/* gtm-disable */})
+
+import { SEOLintResult, SEOLintUnusedSuppression } from '../types';
+
+type DirectiveType = 'disable' | 'enable' | 'disable-next-line';
+
+interface SuppressionDirective {
+  type: DirectiveType;
+  // Empty list means "all rules"
+  rules: string[];
+  line: number;
+  column: number;
+  text: string;
+}
+
+interface DisabledRegion {
+  directive: SuppressionDirective;
+  rule: string | null;
+  startLine: number;
+  endLine: number;
+}
+
+const DIRECTIVE_PATTERN = /(?:<!--|\{\/\*)\s*gtm-(disable-next-line|disable|enable)\b(.*?)\s*(?:-->|\*\/\})/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const parseRuleList = (value: string): string[] => {
+  // Allow a trailing "-- reason" like ESLint directives
+  const [ruleList] = value.split(/\s--\s/);
+  return ruleList
+    .split(/[\s,]+/)
+    .map(rule => rule.trim())
+    .filter(Boolean);
+};
+
+export const parseSuppressionDirectives = (rawContent: string): SuppressionDirective[] => {
+  const directives: SuppressionDirective[] = [];
+  let insideFence = false;
+
+  rawContent.split(/\r?\n/).forEach((lineText, index) => {
+    if (FENCE_PATTERN.test(lineText)) {
+      insideFence = !insideFence;
+      return;
+    }
+    if (insideFence) {
+      return;
+    }
+
+    for (const match of lineText.matchAll(DIRECTIVE_PATTERN)) {
+      directives.push({
+        type: match[1] as DirectiveType,
+        rules: parseRuleList(match[2]),
+        line: index + 1,
+        column: (match.index ?? 0) + 1,
+        text: match[0]
+      });
+    }
+  });
+
+  return directives;
+};
+
+const appliesTo = (rules: string[], ruleId: string): boolean =>
+  rules.length === 0 || rules.includes(ruleId);
+
+// Turn disable/enable pairs into line ranges. A disable without a matching
+// enable covers the whole file, including frontmatter findings above it.
+const buildDisabledRegions = (directives: SuppressionDirective[]): DisabledRegion[] => {
+  const regions: DisabledRegion[] = [];
+  const open: DisabledRegion[] = [];
+
+  for (const directive of directives) {
+    if (directive.type === 'disable') {
+      const targets = directive.rules.length > 0 ? directive.rules : [null];
+      targets.forEach(rule => {
+        open.push({ directive, rule, startLine: directive.line, endLine: Number.POSITIVE_INFINITY });
+      });
+    } else if (directive.type === 'enable') {
+      for (let i = open.length - 1; i >= 0; i--) {
+        const region = open[i];
+        const closes = directive.rules.length === 0 || (region.rule !== null && directive.rules.includes(region.rule));
+        if (closes) {
+          region.endLine = directive.line;
+          regions.push(region);
+          open.splice(i, 1);
+        }
+      }
+    }
+  }
+
+  return [...regions, ...open.map(region => ({ ...region, startLine: 0 }))];
+};
+
+// Mark failing results covered by a directive as suppressed and report
+// directives that did not suppress anything. Findings without a line are
+// document-level: only a gtm-disable region for that rule suppresses them.
+export const applySuppressions = (
+  rawContent: string,
+  results: SEOLintResult[]
+): { results: SEOLintResult[]; unusedSuppressions: SEOLintUnusedSuppression[] } => {
+  const directives = parseSuppressionDirectives(rawContent);
+  if (directives.length === 0) {
+    return { results, unusedSuppressions: [] };
+  }
+
+  const regions = buildDisabledRegions(directives);
+  const nextLineDirectives = directives.filter(directive => directive.type === 'disable-next-line');
+  const used = new Set<SuppressionDirective>();
+
+  const suppressedResults = results.map(result => {
+    if (result.passed) {
+      return result;
+    }
+
+    const matchingDirectives: SuppressionDirective[] = [];
+    if (result.line !== undefined) {
+      const line = result.line;
+      nextLineDirectives
+        .filter(directive => directive.line + 1 === line && appliesTo(directive.rules, result.rule))
+        .forEach(directive => matchingDirectives.push(directive));
+      regions
+        .filter(region => line > region.startLine && line < region.endLine)
+        .filter(region => region.rule === null || region.rule === result.rule)
+        .forEach(region => matchingDirectives.push(region.directive));
+    } else {
+      regions
+        .filter(region => region.rule === null || region.rule === result.rule)
+        .forEach(region => matchingDirectives.push(region.directive));
+    }
+
+    if (matchingDirectives.length === 0) {
+      return result;
+    }
+
+    matchingDirectives.forEach(directive => used.add(directive));
+    return { ...result, suppressed: true };
+  });
+
+  const unusedSuppressions = directives
+    .filter(directive => directive.type !== 'enable' && !used.has(directive))
+    .map(directive => ({
+      line: directive.line,
+      column: directive.column,
+      directive: directive.text,
+      rules: directive.rules,
+      message: directive.rules.length > 0
+        ? `Unused gtm-${directive.type} directive (no problems reported for ${directive.rules.join(', ')})`
+        : `Unused gtm-${directive.type} directive (no problems reported)`
+    }));
+
+  return { results: suppressedResults, unusedSuppressions };
+};
@@ -0,0 +1,26 @@
+// Checkstyle XML output, understood by Jenkins, reviewdog and most CI dashboards
+import { LintFormatter } from '../types';
+import { escapeXml, formatMessage, getRelativePath, getReportedFindings } from './shared';
+
+export const checkstyleFormatter: LintFormatter = (reports, context) => {
+  const files = reports.map(entry => {
+    const errors = getReportedFindings(entry).map(result => {
+      const line = result.line ?? 1;
+      const column = result.column ?? 1;
+      return `    <error line="${line}" column="${column}" severity="${result.severity}" message="${escapeXml(formatMessage(result))}" source="gtm-toolkit.${escapeXml(result.rule)}" />`;
+    });
+
+    return [
+      `  <file name="${escapeXml(getRelativePath(entry.file, context.cwd))}">`,
+      ...errors,
+      '  </file>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<checkstyle version="4.3">',
+    ...files,
+    '</checkstyle>'
+  ].join('\n');
+};
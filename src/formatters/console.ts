@@ -0,0 +1,57 @@
+// Human-readable output with colours (default for `gtm-toolkit lint`)
+import chalk from 'chalk';
+import { getScoreDeductions } from '../core/scoring';
+import { LintFormatter } from '../types';
+import { getRelativePath, getReportedFindings } from './shared';
+
+export const consoleFormatter: LintFormatter = (reports, context) => {
+  const lines: string[] = [];
+
+  reports.forEach(entry => {
+    const relativePath = getRelativePath(entry.file, context.cwd);
+    const heading = entry.summary.errors > 0
+      ? chalk.red.bold('✖')
+      : entry.summary.warnings > 0
+        ? chalk.yellow.bold('⚠')
+        : chalk.green.bold('✓');
+
+    lines.push(`\n${heading} ${chalk.bold(relativePath)} (${entry.score.toFixed(1)}%)`);
+    const baselined = entry.summary.baselined > 0 ? ` | baselined: ${entry.summary.baselined}` : '';
+    lines.push(
+      chalk.gray(
+        `   errors: ${entry.summary.errors} | warnings: ${entry.summary.warnings} | info: ${entry.summary.info} | passed: ${entry.summary.passed} | suppressed: ${entry.summary.suppressed}${baselined}`
+      )
+    );
+    const deductions = getScoreDeductions(entry.scoreBreakdown);
+    if (deductions.length > 0) {
+      const shown = deductions.slice(0, 3).map(rule => `${rule.rule} -${rule.maxPoints.toFixed(1)}`);
+      const more = deductions.length > 3 ? `, +${deductions.length - 3} more` : '';
+      lines.push(chalk.gray(`   score lost to: ${shown.join(', ')}${more}`));
+    }
+
+    getReportedFindings(entry).forEach(result => {
+      const label = result.severity === 'error'
+        ? chalk.red('error')
+        : result.severity === 'warning'
+          ? chalk.yellow('warning')
+          : chalk.blue('info');
+      const location = result.line !== undefined
+        ? `${relativePath}:${result.line}:${result.column ?? 1}`
+        : relativePath;
+      lines.push(`   - ${chalk.gray(location)} [${label}] ${result.rule}: ${result.message}`);
+      if (result.suggestion) {
+        lines.push(chalk.gray(`     suggestion: ${result.suggestion}`));
+      }
+    });
+
+    entry.unusedSuppressions.forEach(unused => {
+      lines.push(chalk.gray(`   - ${relativePath}:${unused.line}:${unused.column} [unused] ${unused.message}`));
+    });
+
+    (entry.fixedBaselineFindings ?? []).forEach(fixed => {
+      lines.push(chalk.green(`   - ${relativePath} [fixed] ${fixed.rule}: ${fixed.message}`));
+    });
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,138 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GTMConfig, LintFormatterContext, SEOLintReport, SEOLintResult, SEORuleDefinition } from '../types';
+import { BUILT_IN_FORMATTERS, loadFormatter } from './index';
+
+const result = (overrides: Partial<SEOLintResult>): SEOLintResult => ({
+  rule: 'SEO-010',
+  name: 'Single H1 Rule',
+  severity: 'error',
+  passed: false,
+  message: 'Found 2 H1 headings',
+  suggestion: 'Keep one <h1>',
+  line: 4,
+  column: 1,
+  ...overrides
+});
+
+const report: SEOLintReport = {
+  file: '/site/content/blog/post.md',
+  results: [
+    result({}),
+    result({ rule: 'SEO-011', severity: 'warning', message: 'Heading levels skip, from h2 to h4', line: 8, suggestion: undefined }),
+    result({ rule: 'SEO-012', severity: 'info', message: 'Intro is long', suppressed: true }),
+    result({ rule: 'SEO-004', severity: 'error', message: 'Summary is short', baselined: true, line: undefined }),
+    result({ rule: 'SEO-001', passed: true, message: 'Title validated', line: undefined })
+  ],
+  summary: { errors: 1, warnings: 1, info: 0, passed: 1, suppressed: 1, baselined: 1 },
+  score: 72.5,
+  scoreBreakdown: [],
+  unusedSuppressions: [
+    { line: 2, column: 1, directive: '<!-- gtm-disable SEO-013 -->', rules: ['SEO-013'], message: 'Unused gtm-disable directive' }
+  ],
+  readability: {} as SEOLintReport['readability'],
+  fixedBaselineFindings: []
+};
+
+const rules = [
+  { id: 'SEO-001', name: 'Title', description: 'Title is set', severity: 'error' },
+  { id: 'SEO-010', name: 'Single H1 Rule', description: 'One H1', severity: 'error' }
+] as SEORuleDefinition[];
+const context: LintFormatterContext = { cwd: '/site', rules };
+
+const format = (name: string): string => BUILT_IN_FORMATTERS[name]([report], context);
+
+describe('built-in formatters', () => {
+  it('json lists every result with the summary and readability', () => {
+    const [entry] = JSON.parse(format('json'));
+    expect(entry.findings).toHaveLength(5);
+    expect(entry).toMatchObject({ file: report.file, score: 72.5, readability: {}, fixedBaselineFindings: [] });
+  });
+
+  it('sarif marks suppressed and baselined results and links rules by index', () => {
+    const sarif = JSON.parse(format('sarif'));
+    const [run] = sarif.runs;
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['SEO-001', 'SEO-010']);
+    expect(run.results.map((entry: { ruleId: string; level: string }) => `${entry.ruleId} ${entry.level}`))
+      .toEqual(['SEO-010 error', 'SEO-011 warning', 'SEO-012 note', 'SEO-004 error']);
+    expect(run.results[0]).toMatchObject({
+      ruleIndex: 1,
+      baselineState: 'new',
+      message: { text: 'Found 2 H1 headings. Keep one <h1>' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'content/blog/post.md' }, region: { startLine: 4 } } }]
+    });
+    expect(run.results[2].suppressions).toEqual([{ kind: 'inSource' }]);
+    expect(run.results[3]).toMatchObject({ baselineState: 'unchanged' });
+    expect(run.results[3].locations[0].physicalLocation.region).toBeUndefined();
+  });
+
+  it('junit reports one test case per result, skipping suppressed and baselined ones', () => {
+    const junit = format('junit');
+    expect(junit).toContain('<testsuites name="gtm-toolkit" tests="5" failures="2" errors="0">');
+    expect(junit).toContain('<testsuite name="content/blog/post.md" tests="5" failures="2" errors="0" skipped="2">');
+    expect(junit).toContain('<failure message="Found 2 H1 headings" type="error">Found 2 H1 headings. Keep one &lt;h1&gt;</failure>');
+    expect(junit).toContain('<skipped message="Recorded in lint baseline" />');
+  });
+
+  it('checkstyle lists only reported findings', () => {
+    const checkstyle = format('checkstyle');
+    expect(checkstyle.match(/<error /g)).toHaveLength(2);
+    expect(checkstyle).toContain('<error line="8" column="1" severity="warning" message="Heading levels skip, from h2 to h4" source="gtm-toolkit.SEO-011" />');
+  });
+
+  it('github writes escaped workflow commands', () => {
+    expect(format('github').split('\n')).toEqual([
+      '::error file=content/blog/post.md,line=4,col=1,title=SEO-010%3A Single H1 Rule::Found 2 H1 headings%0AKeep one <h1>',
+      '::warning file=content/blog/post.md,line=8,col=1,title=SEO-011%3A Single H1 Rule::Heading levels skip, from h2 to h4',
+      '::notice file=content/blog/post.md,line=2,col=1,title=Unused gtm directive::Unused gtm-disable directive'
+    ]);
+  });
+
+  it('markdown summarizes files and lists findings', () => {
+    const markdown = format('markdown');
+    expect(markdown).toContain('1 file(s) linted: 1 error(s), 1 warning(s), 0 info.');
+    expect(markdown).toContain('| content/blog/post.md | 72.5% | 1 | 1 | 0 | 1 |');
+    expect(markdown).toContain('| `content/blog/post.md:4:1` | error | SEO-010 | Found 2 H1 headings | Keep one <h1> |');
+  });
+});
+
+describe('loadFormatter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-formatters-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('prefers built-in names, then config.formatters', () => {
+    const custom = () => 'custom';
+    const config = { formatters: { json: () => 'ignored', team: custom } } as unknown as GTMConfig;
+    expect(loadFormatter('json', config, dir)).toBe(BUILT_IN_FORMATTERS.json);
+    expect(loadFormatter('team', config, dir)).toBe(custom);
+  });
+
+  it('loads local modules and gtm-toolkit-formatter-* packages', async () => {
+    await fs.outputFile(path.join(dir, 'formatters/count.js'), 'module.exports = reports => `${reports.length} files`;');
+    await fs.outputFile(
+      path.join(dir, 'node_modules/gtm-toolkit-formatter-tap/index.js'),
+      "exports.default = () => 'TAP version 13';"
+    );
+    const config = { formatters: { count: './formatters/count.js' } } as unknown as GTMConfig;
+
+    expect(loadFormatter('count', config, dir)([report], context)).toBe('1 files');
+    expect(loadFormatter('./formatters/count.js', undefined, dir)([report], context)).toBe('1 files');
+    expect(loadFormatter('tap', undefined, dir)([report], context)).toBe('TAP version 13');
+  });
+
+  it('lists the built-in formats for unknown names and rejects non-functions', async () => {
+    expect(() => loadFormatter('yaml', undefined, dir)).toThrow(/Unknown format "yaml".*built-in formats: console, json, sarif/);
+
+    await fs.outputFile(path.join(dir, 'bad.js'), 'module.exports = { format: true };');
+    expect(() => loadFormatter('./bad.js', undefined, dir)).toThrow(/must export a function/);
+  });
+});
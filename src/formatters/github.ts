@@ -0,0 +1,48 @@
+// GitHub Actions workflow commands: findings show up as annotations on the pull request
+import { LintFormatter, SEOLintSeverity } from '../types';
+import { getRelativePath, getReportedFindings, toPosixPath } from './shared';
+
+const COMMANDS: Record<SEOLintSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'notice'
+};
+
+// https://docs.github.com/actions/using-workflows/workflow-commands-for-github-actions
+const escapeData = (value: string): string =>
+  value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+
+const escapeProperty = (value: string): string =>
+  escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+const formatProperties = (properties: Record<string, string | number | undefined>): string =>
+  Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${escapeProperty(String(value))}`)
+    .join(',');
+
+export const githubFormatter: LintFormatter = (reports, context) =>
+  reports
+    .flatMap(entry => {
+      const file = toPosixPath(getRelativePath(entry.file, context.cwd));
+
+      const findings = getReportedFindings(entry).map(result => {
+        const properties = formatProperties({
+          file,
+          line: result.line,
+          col: result.column,
+          endLine: result.endLine,
+          endColumn: result.endColumn,
+          title: `${result.rule}: ${result.name}`
+        });
+        const message = result.suggestion ? `${result.message}\n${result.suggestion}` : result.message;
+        return `::${COMMANDS[result.severity]} ${properties}::${escapeData(message)}`;
+      });
+
+      const unused = entry.unusedSuppressions.map(unused =>
+        `::notice ${formatProperties({ file, line: unused.line, col: unused.column, title: 'Unused gtm directive' })}::${escapeData(unused.message)}`
+      );
+
+      return [...findings, ...unused];
+    })
+    .join('\n');
@@ -0,0 +1,70 @@
+// Formatter registry - built-in lint output formats plus custom ones from
+// gtm.config.js, local files and gtm-toolkit-formatter-* packages
+
+import { resolveToolkitModule } from '../core/plugins';
+import { GTMConfig, LintFormatter } from '../types';
+import { checkstyleFormatter } from './checkstyle';
+import { consoleFormatter } from './console';
+import { githubFormatter } from './github';
+import { jsonFormatter } from './json';
+import { junitFormatter } from './junit';
+import { markdownFormatter } from './markdown';
+import { sarifFormatter } from './sarif';
+
+const FORMATTER_PACKAGE_PREFIX = 'gtm-toolkit-formatter-';
+
+export const BUILT_IN_FORMATTERS: Record<string, LintFormatter> = {
+  console: consoleFormatter,
+  json: jsonFormatter,
+  sarif: sarifFormatter,
+  junit: junitFormatter,
+  checkstyle: checkstyleFormatter,
+  github: githubFormatter,
+  markdown: markdownFormatter
+};
+
+// Same module lookup as plugins and presets, with the formatter package prefix
+const resolveFormatterModule = (specifier: string, cwd: string): string => {
+  try {
+    return resolveToolkitModule(specifier, cwd, FORMATTER_PACKAGE_PREFIX, 'formatter');
+  } catch (error) {
+    throw new Error(
+      `Unknown format "${specifier}": ${(error as Error).message} ` +
+      `(built-in formats: ${Object.keys(BUILT_IN_FORMATTERS).join(', ')})`
+    );
+  }
+};
+
+const requireFormatter = (specifier: string, cwd: string): LintFormatter => {
+  const modulePath = resolveFormatterModule(specifier, cwd);
+  let loaded: LintFormatter & { default?: LintFormatter };
+  try {
+    loaded = require(modulePath);
+  } catch (error) {
+    throw new Error(`Failed to load formatter "${specifier}": ${(error as Error).message}`);
+  }
+
+  const formatter = loaded.default ?? loaded;
+  if (typeof formatter !== 'function') {
+    throw new Error(`Formatter "${specifier}" must export a function (reports, context) => string`);
+  }
+  return formatter;
+};
+
+// Lookup order: built-in name, config.formatters entry, module path or package
+export const loadFormatter = (
+  name: string,
+  config?: GTMConfig,
+  cwd: string = process.cwd()
+): LintFormatter => {
+  if (BUILT_IN_FORMATTERS[name]) {
+    return BUILT_IN_FORMATTERS[name];
+  }
+
+  const configured = config?.formatters?.[name];
+  if (typeof configured === 'function') {
+    return configured;
+  }
+
+  return requireFormatter(configured ?? name, cwd);
+};
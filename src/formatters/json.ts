@@ -0,0 +1,16 @@
+// Machine-readable output: every result, including passed and suppressed ones
+import { LintFormatter, SEOLintReport } from '../types';
+
+export const toJsonReport = (entry: SEOLintReport) => ({
+  file: entry.file,
+  summary: entry.summary,
+  score: entry.score,
+  scoreBreakdown: entry.scoreBreakdown,
+  findings: entry.results,
+  unusedSuppressions: entry.unusedSuppressions,
+  readability: entry.readability,
+  ...(entry.fixedBaselineFindings ? { fixedBaselineFindings: entry.fixedBaselineFindings } : {})
+});
+
+export const jsonFormatter: LintFormatter = reports =>
+  JSON.stringify(reports.map(toJsonReport), null, 2);
@@ -0,0 +1,46 @@
+// JUnit XML output: one test suite per file, one test case per rule result
+import { LintFormatter, SEOLintResult } from '../types';
+import { escapeXml, formatMessage, getRelativePath } from './shared';
+
+const formatTestCase = (result: SEOLintResult, classname: string): string => {
+  const location = result.line !== undefined ? ` (line ${result.line}:${result.column ?? 1})` : '';
+  const open = `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(`${result.rule}: ${result.name}${location}`)}" time="0"`;
+
+  if (result.passed) {
+    return `${open} />`;
+  }
+  if (result.suppressed || result.baselined) {
+    const reason = result.suppressed ? 'Suppressed by inline gtm-disable directive' : 'Recorded in lint baseline';
+    return `${open}>\n      <skipped message="${reason}" />\n    </testcase>`;
+  }
+
+  return [
+    `${open}>`,
+    `      <failure message="${escapeXml(result.message)}" type="${result.severity}">${escapeXml(formatMessage(result))}</failure>`,
+    '    </testcase>'
+  ].join('\n');
+};
+
+export const junitFormatter: LintFormatter = (reports, context) => {
+  const countFailures = (results: SEOLintResult[]) =>
+    results.filter(result => !result.passed && !result.suppressed && !result.baselined).length;
+  const totalTests = reports.reduce((acc, entry) => acc + entry.results.length, 0);
+  const totalFailures = reports.reduce((acc, entry) => acc + countFailures(entry.results), 0);
+
+  const suites = reports.map(entry => {
+    const file = getRelativePath(entry.file, context.cwd);
+    const skipped = entry.results.filter(result => !result.passed && (result.suppressed || result.baselined)).length;
+    return [
+      `  <testsuite name="${escapeXml(file)}" tests="${entry.results.length}" failures="${countFailures(entry.results)}" errors="0" skipped="${skipped}">`,
+      ...entry.results.map(result => formatTestCase(result, file)),
+      '  </testsuite>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="gtm-toolkit" tests="${totalTests}" failures="${totalFailures}" errors="0">`,
+    ...suites,
+    '</testsuites>'
+  ].join('\n');
+};
@@ -0,0 +1,46 @@
+// Markdown report, e.g. for pull request comments or $GITHUB_STEP_SUMMARY
+import { LintFormatter, SEOLintResult } from '../types';
+import { getRelativePath, getReportedFindings } from './shared';
+
+const escapeCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const formatLocation = (file: string, result: SEOLintResult): string =>
+  result.line !== undefined ? `${file}:${result.line}:${result.column ?? 1}` : file;
+
+export const markdownFormatter: LintFormatter = (reports, context) => {
+  const totalErrors = reports.reduce((acc, entry) => acc + entry.summary.errors, 0);
+  const totalWarnings = reports.reduce((acc, entry) => acc + entry.summary.warnings, 0);
+  const totalInfo = reports.reduce((acc, entry) => acc + entry.summary.info, 0);
+
+  const lines = [
+    '## GTM Toolkit SEO Lint',
+    '',
+    `${reports.length} file(s) linted: ${totalErrors} error(s), ${totalWarnings} warning(s), ${totalInfo} info.`,
+    '',
+    '| File | Score | Errors | Warnings | Info | Suppressed |',
+    '| --- | ---: | ---: | ---: | ---: | ---: |',
+    ...reports.map(entry =>
+      `| ${escapeCell(getRelativePath(entry.file, context.cwd))} | ${entry.score.toFixed(1)}% | ${entry.summary.errors} | ${entry.summary.warnings} | ${entry.summary.info} | ${entry.summary.suppressed} |`
+    )
+  ];
+
+  const findings = reports.flatMap(entry => {
+    const file = getRelativePath(entry.file, context.cwd);
+    return getReportedFindings(entry).map(result =>
+      `| \`${escapeCell(formatLocation(file, result))}\` | ${result.severity} | ${escapeCell(result.rule)} | ${escapeCell(result.message)} | ${escapeCell(result.suggestion ?? '')} |`
+    );
+  });
+
+  if (findings.length > 0) {
+    lines.push(
+      '',
+      '### Findings',
+      '',
+      '| Location | Severity | Rule | Message | Suggestion |',
+      '| --- | --- | --- | --- | --- |',
+      ...findings
+    );
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,77 @@
+// SARIF 2.1.0 output for GitHub code scanning and other SARIF consumers
+import fs from 'fs-extra';
+import path from 'path';
+import { LintFormatter, SEOLintResult, SEOLintSeverity } from '../types';
+import { formatMessage, getRelativePath, toPosixPath } from './shared';
+
+const SARIF_LEVELS: Record<SEOLintSeverity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+};
+
+const toRegion = (result: SEOLintResult) => {
+  if (result.line === undefined) {
+    return undefined;
+  }
+  return {
+    startLine: result.line,
+    startColumn: result.column ?? 1,
+    ...(result.endLine !== undefined ? { endLine: result.endLine } : {}),
+    ...(result.endColumn !== undefined ? { endColumn: result.endColumn } : {})
+  };
+};
+
+export const sarifFormatter: LintFormatter = (reports, context) => {
+  const packageJson = fs.readJsonSync(path.join(__dirname, '../../package.json')) as { version: string; homepage: string };
+  const ruleIndex = new Map(context.rules.map((rule, index) => [rule.id, index]));
+
+  const results = reports.flatMap(entry => {
+    const uri = toPosixPath(getRelativePath(entry.file, context.cwd));
+    const hasBaseline = entry.fixedBaselineFindings !== undefined;
+
+    return entry.results
+      .filter(result => !result.passed)
+      .map(result => {
+        const region = toRegion(result);
+        return {
+          ruleId: result.rule,
+          ...(ruleIndex.has(result.rule) ? { ruleIndex: ruleIndex.get(result.rule) } : {}),
+          level: SARIF_LEVELS[result.severity],
+          message: { text: formatMessage(result) },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri, uriBaseId: '%SRCROOT%' },
+              ...(region ? { region } : {})
+            }
+          }],
+          // Code scanning hides results suppressed in source
+          ...(result.suppressed ? { suppressions: [{ kind: 'inSource' }] } : {}),
+          ...(hasBaseline ? { baselineState: result.baselined ? 'unchanged' : 'new' } : {})
+        };
+      });
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'gtm-toolkit',
+          version: packageJson.version,
+          informationUri: packageJson.homepage,
+          rules: context.rules.map(rule => ({
+            id: rule.id,
+            name: rule.name,
+            shortDescription: { text: rule.description },
+            defaultConfiguration: { level: SARIF_LEVELS[rule.severity] }
+          }))
+        }
+      },
+      results
+    }]
+  };
+
+  return JSON.stringify(sarif, null, 2);
+};
@@ -0,0 +1,24 @@
+// Helpers shared by the lint output formatters
+import path from 'path';
+import { SEOLintReport, SEOLintResult } from '../types';
+
+// Failing findings that were neither suppressed inline nor baselined
+export const getReportedFindings = (report: SEOLintReport): SEOLintResult[] =>
+  report.results.filter(result => !result.passed && !result.suppressed && !result.baselined);
+
+export const getRelativePath = (file: string, cwd: string): string =>
+  path.relative(cwd, path.resolve(cwd, file)) || file;
+
+// Forward slashes for formats consumed by CI services (SARIF, GitHub)
+export const toPosixPath = (file: string): string => file.split(path.sep).join('/');
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const formatMessage = (result: SEOLintResult): string =>
+  result.suggestion ? `${result.message}. ${result.suggestion}` : result.message;
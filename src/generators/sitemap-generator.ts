@@ -4,6 +4,7 @@ import { writeFileSync, readdirSync, statSync, existsSync, readFileSync } from '
 import { join } from 'path';
 import { GTMConfig } from '../types';
 import matter from 'gray-matter';
+import { getContentUrl } from '../utils/slug';
 
 interface SitemapEntry {
   url: string;
@@ -29,7 +30,9 @@ export interface SitemapConfig {
 }
 
 interface ContentMetadata {
-  title: string;
+  title?: string;
+  // Same URL the link and slug rules resolve (SEO-072, SEO-074)
+  url: string;
   date?: string;
   category?: string;
   tags?: string[];
@@ -173,9 +176,8 @@ export class SitemapGenerator {
         const filePath = join(dirPath, file);
         const metadata = await this.extractContentMetadata(filePath);
         
-        // Generate URL from filename
-        const slug = this.generateSlug(file, metadata);
-        const url = `${urlPrefix}${slug}`;
+        // URL from the frontmatter slug, the title or the filename
+        const { url } = metadata;
         
         // Calculate priority based on content
         const priority = this.calculateContentPriority(metadata, urlPrefix);
@@ -208,7 +210,8 @@ export class SitemapGenerator {
       const stats = statSync(filePath);
       
       return {
-        title: frontmatter.title || 'Untitled',
+        title: frontmatter.title,
+        url: getContentUrl(filePath, frontmatter),
         date: frontmatter.date,
         category: frontmatter.category,
         tags: frontmatter.tags || [],
@@ -218,31 +221,13 @@ export class SitemapGenerator {
     } catch (error) {
       const stats = statSync(filePath);
       return {
-        title: 'Untitled',
+        url: getContentUrl(filePath),
         lastModified: stats.mtime.toISOString().split('T')[0],
         wordCount: 0
       };
     }
   }
 
-  // Generate slug from filename and metadata
-  private generateSlug(filename: string, metadata: ContentMetadata): string {
-    const baseFromFilename = filename
-      .replace(/\.(md|mdx)$/, '')
-      .replace(/^\d{4}-\d{2}-\d{2}-/, '');
-
-    const source = metadata.title
-      ? metadata.title
-      : baseFromFilename;
-
-    return source
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '')
-      .trim()
-      .replace(/\s+/g, '-')
-      .replace(/^-+|-+$/g, '');
-  }
-
   // Calculate content priority based on metadata
   private calculateContentPriority(metadata: ContentMetadata, urlPrefix: string): number {
     let priority = this.sitemapConfig.defaultPriority;
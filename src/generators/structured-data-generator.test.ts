@@ -0,0 +1,121 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GTMConfig } from '../types';
+import { generateStructuredData, getPageStructuredData, JsonLdNode, toJsonLdScript } from './structured-data-generator';
+
+const config = {
+  seo: { siteName: 'Acme', siteUrl: 'https://acme.dev/', defaultTitle: 'Acme', defaultDescription: 'Flags for teams', twitterHandle: '@acme' },
+  content: {}
+} as GTMConfig;
+
+const post = [
+  '---',
+  'title: How to roll out feature flags',
+  'summary: Ship code dark, then turn it on.',
+  'date: 2025-01-15',
+  'slug: flags',
+  'author: Dana',
+  'tags: [flags, releases]',
+  '---',
+  'Feature flags let you deploy without releasing.',
+  '',
+  '## Steps',
+  '',
+  '1. Wrap the code path',
+  '2. Turn the flag on for 10%',
+  '',
+  '## FAQ',
+  '',
+  '### Are flags slow?',
+  '',
+  'No. Checks are local lookups.',
+  '',
+  '### Notes',
+  '',
+  'Not a question.'
+].join('\n');
+
+const byType = (graph: JsonLdNode[], type: string) => graph.find(node => node['@type'] === type);
+
+describe('getPageStructuredData', () => {
+  const { '@graph': graph } = getPageStructuredData(config, { path: 'content/blog/2025-01-15-flags.md', content: post });
+
+  it('builds a BlogPosting from frontmatter', () => {
+    expect(byType(graph, 'BlogPosting')).toMatchObject({
+      '@id': 'https://acme.dev/blog/flags#article',
+      headline: 'How to roll out feature flags',
+      description: 'Ship code dark, then turn it on.',
+      datePublished: '2025-01-15',
+      dateModified: '2025-01-15',
+      author: { '@type': 'Person', name: 'Dana' },
+      keywords: 'flags, releases'
+    });
+    expect(byType(graph, 'Organization')).toMatchObject({ sameAs: ['https://twitter.com/acme'] });
+  });
+
+  it('adds breadcrumbs, FAQ answers and HowTo steps', () => {
+    expect(byType(graph, 'BreadcrumbList')?.itemListElement).toEqual([
+      { '@type': 'ListItem', position: 1, name: 'Acme', item: 'https://acme.dev/' },
+      { '@type': 'ListItem', position: 2, name: 'Blog', item: 'https://acme.dev/blog' },
+      { '@type': 'ListItem', position: 3, name: 'How to roll out feature flags', item: 'https://acme.dev/blog/flags' }
+    ]);
+    expect(byType(graph, 'FAQPage')?.mainEntity).toEqual([
+      { '@type': 'Question', name: 'Are flags slow?', acceptedAnswer: { '@type': 'Answer', text: 'No. Checks are local lookups.' } }
+    ]);
+    expect(byType(graph, 'HowTo')?.step).toEqual([
+      { '@type': 'HowToStep', position: 1, text: 'Wrap the code path' },
+      { '@type': 'HowToStep', position: 2, text: 'Turn the flag on for 10%' }
+    ]);
+  });
+
+  it('escapes closing tags in the inline script', () => {
+    const script = toJsonLdScript({ '@context': 'https://schema.org', '@graph': [{ '@type': 'Thing', name: '</script>' }] });
+    expect(script).not.toContain('</script><');
+    expect(script).toContain('\\u003c/script>');
+  });
+});
+
+describe('generateStructuredData', () => {
+  let dir: string;
+  let warn: jest.SpyInstance;
+  let log: jest.SpyInstance;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-structured-'));
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    warn.mockRestore();
+    log.mockRestore();
+    await fs.remove(dir);
+  });
+
+  it('writes one file per page URL plus site.json', async () => {
+    await fs.outputFile(path.join(dir, 'content/blog/2025-01-15-flags.md'), post);
+    await fs.outputFile(path.join(dir, 'content/blog/hidden.md'), '---\ntitle: Hidden\nstructuredData: false\n---\nBody\n');
+    const outputPath = path.join(dir, 'public/structured-data');
+
+    const pages = await generateStructuredData(config, { contentPath: path.join(dir, 'content'), outputPath });
+
+    expect(pages.map(page => page.url)).toEqual(['/blog/flags']);
+    expect((await fs.readdir(outputPath)).sort()).toEqual(['blog', 'site.json']);
+    expect(await fs.readJson(path.join(outputPath, 'blog/flags.json'))).toEqual(pages[0].jsonLd);
+  });
+
+  it('skips pages whose slug resolves outside the output directory', async () => {
+    await fs.outputFile(path.join(dir, 'content/blog/escape.md'), '---\ntitle: Escape\nslug: /../../escaped\n---\nBody\n');
+    await fs.outputFile(path.join(dir, 'content/blog/nested.md'), '---\ntitle: Nested\nslug: ../../etc/nested\n---\nBody\n');
+    const outputPath = path.join(dir, 'public/structured-data');
+
+    await generateStructuredData(config, { contentPath: path.join(dir, 'content'), outputPath });
+
+    expect(await fs.pathExists(path.join(dir, 'escaped.json'))).toBe(false);
+    expect(await fs.pathExists(path.join(dir, 'public/etc/nested.json'))).toBe(false);
+    expect(await fs.readdir(outputPath)).toEqual(['site.json']);
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^Skipped structured data for .*escape\.md: URL \/\.\.\/\.\.\/escaped resolves outside/));
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
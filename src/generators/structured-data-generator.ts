@@ -0,0 +1,347 @@
+// JSON-LD Structured Data Generator - schema.org markup from content
+// frontmatter and body, per page and for the site as a whole
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import matter from 'gray-matter';
+import type { Content, List } from 'mdast';
+import { ContentFile, GTMConfig, MarkdownDocument } from '../types';
+import { FAQ_HEADING, isQuestion } from '../core/geo-rules';
+import { parseMarkdown } from '../core/markdown-ast';
+import { countWords } from '../core/readability';
+import { loadContentFiles } from '../utils/content-loader';
+import { getContentUrl } from '../utils/slug';
+
+export type JsonLdNode = { '@type': string } & Record<string, unknown>;
+
+export interface JsonLdDocument {
+  '@context': 'https://schema.org';
+  '@graph': JsonLdNode[];
+}
+
+export interface StructuredDataPage {
+  file: string;
+  url: string;
+  jsonLd: JsonLdDocument;
+}
+
+// A content file; frontmatter is parsed from the content when missing
+export type StructuredDataSource = Pick<ContentFile, 'path' | 'content'> & Partial<Pick<ContentFile, 'frontmatter'>>;
+
+export interface StructuredDataOptions {
+  contentPath?: string;
+  // Directory for the per-page JSON files, laid out like the page URLs
+  outputPath?: string;
+  includeDrafts?: boolean;
+}
+
+// Headings that introduce a numbered list of steps
+const STEPS_HEADING = /\b(steps?|how to|instructions)\b/i;
+
+const HOW_TO_TITLE = /^how to\b/i;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+
+// YAML parses unquoted dates into Date objects
+const asDate = (value: unknown): string | undefined =>
+  value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString().split('T')[0] : asString(value);
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const titleCase = (segment: string): string =>
+  segment.split('-').filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// Drop unset properties and empty lists so the output only has real values
+const compact = (node: JsonLdNode): JsonLdNode =>
+  Object.fromEntries(
+    Object.entries(node).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+  ) as JsonLdNode;
+
+// Inline <script> tag for frameworks that render the head as HTML
+export const toJsonLdScript = (jsonLd: JsonLdDocument): string =>
+  `<script type="application/ld+json">${JSON.stringify(jsonLd).replace(/</g, '\\u003c')}</script>`;
+
+export class StructuredDataGenerator {
+  private config: GTMConfig;
+  private siteUrl: string;
+
+  constructor(config: GTMConfig) {
+    this.config = config;
+    this.siteUrl = config.seo.siteUrl.replace(/\/+$/, '');
+  }
+
+  // Generate structured data for every content file
+  async generate(options: StructuredDataOptions = {}): Promise<StructuredDataPage[]> {
+    const contentPath = options.contentPath ?? this.config.content?.contentPath ?? 'content';
+    if (!existsSync(contentPath)) {
+      console.warn(`Content path not found: ${contentPath}`);
+      return [];
+    }
+
+    const files = await loadContentFiles(contentPath, {
+      extensions: this.config.content?.extensions,
+      includeDrafts: options.includeDrafts
+    });
+    // `structuredData: false` in frontmatter opts a page out
+    const pages = files
+      .filter(file => file.frontmatter.structuredData !== false)
+      .map(file => this.generateForFile(file));
+
+    if (options.outputPath) {
+      const outputPath = options.outputPath;
+      const outputRoot = resolve(outputPath);
+      // Page URLs come from frontmatter slugs, so "../" segments could point
+      // anywhere; only paths inside the output directory are written
+      const writeJson = (relativePath: string, jsonLd: JsonLdDocument): boolean => {
+        const filePath = resolve(outputRoot, relativePath);
+        const fromRoot = relative(outputRoot, filePath);
+        if (fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+          return false;
+        }
+        mkdirSync(dirname(filePath), { recursive: true });
+        writeFileSync(filePath, `${JSON.stringify(jsonLd, null, 2)}\n`, 'utf8');
+        return true;
+      };
+
+      writeJson('site.json', this.generateSiteData());
+      const written = pages.filter(page => {
+        const inside = writeJson(`${page.url.replace(/^\/+/, '') || 'index'}.json`, page.jsonLd);
+        if (!inside) {
+          console.warn(`Skipped structured data for ${page.file}: URL ${page.url} resolves outside ${outputPath}`);
+        }
+        return inside;
+      });
+      console.log(`Structured data generated at: ${outputPath} (${written.length} pages)`);
+    }
+
+    return pages;
+  }
+
+  // Organization and WebSite, e.g. for the home page
+  generateSiteData(): JsonLdDocument {
+    return { '@context': 'https://schema.org', '@graph': this.createSiteNodes() };
+  }
+
+  // Article or BlogPosting, BreadcrumbList, FAQPage and HowTo for one page,
+  // alongside the site nodes they reference
+  generateForFile(file: StructuredDataSource): StructuredDataPage {
+    const frontmatter = file.frontmatter ?? (matter(file.content).data as Record<string, unknown>);
+    const url = getContentUrl(file.path, frontmatter);
+    const document = parseMarkdown(file.content, { filename: file.path });
+
+    const graph = [
+      ...this.createSiteNodes(),
+      this.createArticle(url, frontmatter, document),
+      this.createBreadcrumbs(url, frontmatter),
+      this.createFaqPage(url, document),
+      this.createHowTo(url, frontmatter, document)
+    ].filter((node): node is JsonLdNode => node !== undefined);
+
+    return {
+      file: file.path,
+      url,
+      jsonLd: { '@context': 'https://schema.org', '@graph': graph }
+    };
+  }
+
+  private absoluteUrl(url: string): string {
+    if (/^https?:\/\//i.test(url)) {
+      return url;
+    }
+    return `${this.siteUrl}${url.startsWith('/') ? '' : '/'}${url}`;
+  }
+
+  private createSiteNodes(): JsonLdNode[] {
+    const { siteName, defaultDescription, twitterHandle } = this.config.seo;
+    const handle = twitterHandle?.replace(/^@/, '');
+
+    return [
+      compact({
+        '@type': 'Organization',
+        '@id': `${this.siteUrl}/#organization`,
+        name: siteName,
+        url: `${this.siteUrl}/`,
+        sameAs: handle ? [`https://twitter.com/${handle}`] : undefined
+      }),
+      compact({
+        '@type': 'WebSite',
+        '@id': `${this.siteUrl}/#website`,
+        name: siteName,
+        url: `${this.siteUrl}/`,
+        description: asString(defaultDescription),
+        publisher: { '@id': `${this.siteUrl}/#organization` }
+      })
+    ];
+  }
+
+  // Authors as a name, { name, url } or a list of either; the site's
+  // organization when none is set
+  private createAuthors(author: unknown): unknown {
+    const toPerson = (entry: unknown): JsonLdNode | undefined => {
+      if (typeof entry === 'string') {
+        return asString(entry) ? { '@type': 'Person', name: entry.trim() } : undefined;
+      }
+      if (entry && typeof entry === 'object' && asString((entry as Record<string, unknown>).name)) {
+        const { name, url } = entry as Record<string, unknown>;
+        return compact({ '@type': 'Person', name: asString(name), url: asString(url) });
+      }
+      return undefined;
+    };
+
+    const people = (Array.isArray(author) ? author : [author])
+      .map(toPerson)
+      .filter((person): person is JsonLdNode => person !== undefined);
+    if (people.length === 0) {
+      return { '@id': `${this.siteUrl}/#organization` };
+    }
+    return people.length === 1 ? people[0] : people;
+  }
+
+  private createArticle(url: string, frontmatter: Record<string, unknown>, document: MarkdownDocument): JsonLdNode {
+    const pageUrl = this.absoluteUrl(url);
+    const image = asString(frontmatter.image);
+    const datePublished = asDate(frontmatter.date);
+    const tags = Array.isArray(frontmatter.tags) ? frontmatter.tags.filter(tag => typeof tag === 'string') : [];
+
+    return compact({
+      '@type': url.startsWith('/blog/') ? 'BlogPosting' : 'Article',
+      '@id': `${pageUrl}#article`,
+      headline: asString(frontmatter.title) ?? this.config.seo.defaultTitle,
+      description: asString(frontmatter.summary) ?? asString(frontmatter.description),
+      url: pageUrl,
+      mainEntityOfPage: pageUrl,
+      image: image ? this.absoluteUrl(image) : undefined,
+      datePublished,
+      dateModified: asDate(frontmatter.updated) ?? asDate(frontmatter.lastModified) ?? datePublished,
+      author: this.createAuthors(frontmatter.author),
+      publisher: { '@id': `${this.siteUrl}/#organization` },
+      isPartOf: { '@id': `${this.siteUrl}/#website` },
+      articleSection: asString(frontmatter.category),
+      keywords: tags.length > 0 ? tags.join(', ') : undefined,
+      wordCount: countWords(document.proseText())
+    });
+  }
+
+  // Home, then one crumb per URL segment; the last crumb is the page title
+  private createBreadcrumbs(url: string, frontmatter: Record<string, unknown>): JsonLdNode | undefined {
+    const segments = url.split('/').filter(Boolean);
+    if (segments.length === 0) {
+      return undefined;
+    }
+
+    const crumbs = [
+      { name: this.config.seo.siteName, item: `${this.siteUrl}/` },
+      ...segments.map((segment, index) => ({
+        name: index === segments.length - 1
+          ? asString(frontmatter.title) ?? titleCase(segment)
+          : titleCase(segment),
+        item: this.absoluteUrl(`/${segments.slice(0, index + 1).join('/')}`)
+      }))
+    ];
+
+    return {
+      '@type': 'BreadcrumbList',
+      '@id': `${this.absoluteUrl(url)}#breadcrumb`,
+      itemListElement: crumbs.map((crumb, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: crumb.name,
+        item: crumb.item
+      }))
+    };
+  }
+
+  // Question subheadings under an FAQ H2, each answered by the blocks that
+  // follow it (the same section SEO-063 checks)
+  private createFaqPage(url: string, document: MarkdownDocument): JsonLdNode | undefined {
+    const { body } = document;
+    const start = body.findIndex(node =>
+      node.type === 'heading' && node.depth === 2 && FAQ_HEADING.test(document.textOf(node))
+    );
+    if (start === -1) {
+      return undefined;
+    }
+
+    // A subheading that is not a question ends the previous answer
+    const entries: Array<{ question: string; answer: string[] }> = [];
+    let current: { question: string; answer: string[] } | undefined;
+    for (const node of body.slice(start + 1)) {
+      if (node.type === 'heading' && node.depth <= 2) {
+        break;
+      }
+      const text = collapse(document.textOf(node));
+      if (node.type === 'heading') {
+        current = isQuestion(text) ? { question: text, answer: [] } : undefined;
+        if (current) {
+          entries.push(current);
+        }
+      } else if (current && text) {
+        current.answer.push(text);
+      }
+    }
+
+    const questions = entries.filter(entry => entry.answer.length > 0);
+    if (questions.length === 0) {
+      return undefined;
+    }
+
+    return {
+      '@type': 'FAQPage',
+      '@id': `${this.absoluteUrl(url)}#faq`,
+      mainEntity: questions.map(entry => ({
+        '@type': 'Question',
+        name: entry.question,
+        acceptedAnswer: { '@type': 'Answer', text: entry.answer.join('\n\n') }
+      }))
+    };
+  }
+
+  // The first numbered list of two or more steps, in a "How to ..." page or
+  // under a heading such as "Steps" or "How to set it up"
+  private createHowTo(url: string, frontmatter: Record<string, unknown>, document: MarkdownDocument): JsonLdNode | undefined {
+    const title = asString(frontmatter.title);
+    let heading: string | undefined;
+    let steps: List | undefined;
+
+    for (const node of document.body as Content[]) {
+      if (node.type === 'heading') {
+        heading = collapse(document.textOf(node));
+        continue;
+      }
+      const isStepList = node.type === 'list' && node.ordered === true && node.children.length >= 2;
+      if (isStepList && ((heading && STEPS_HEADING.test(heading)) || (title && HOW_TO_TITLE.test(title)))) {
+        steps = node;
+        break;
+      }
+    }
+    if (!steps) {
+      return undefined;
+    }
+
+    const name = heading && HOW_TO_TITLE.test(heading) ? heading : title ?? heading;
+
+    return compact({
+      '@type': 'HowTo',
+      '@id': `${this.absoluteUrl(url)}#howto`,
+      name,
+      description: asString(frontmatter.summary) ?? asString(frontmatter.description),
+      step: steps.children
+        .map(item => collapse(document.textOf(item)))
+        .filter(text => text.length > 0)
+        .map((text, index) => ({ '@type': 'HowToStep', position: index + 1, text }))
+    });
+  }
+}
+
+export const generateStructuredData = (
+  config: GTMConfig,
+  options: StructuredDataOptions = {}
+): Promise<StructuredDataPage[]> => {
+  const generator = new StructuredDataGenerator(config);
+  return generator.generate(options);
+};
+
+// Structured data for a single page, e.g. from a framework's page loader
+export const getPageStructuredData = (config: GTMConfig, file: StructuredDataSource): JsonLdDocument =>
+  new StructuredDataGenerator(config).generateForFile(file).jsonLd;
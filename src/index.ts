@@ -4,18 +4,53 @@ export {
   lintContent,
   createLintReport,
   summarizeLintResults,
+  getActiveRules,
+  lintCorpus,
+  addCorpusResults,
+  type GTMPlugin,
+  type SEOLintContext,
   type SEOLintResult,
   type SEOLintRule
 } from './core/seo-rules';
+export { CORPUS_RULES } from './core/corpus-rules';
+export { GEO_RULES } from './core/geo-rules';
+export {
+  buildUrlInventory,
+  resolveInternalLink,
+  type UrlInventory,
+  type InternalLinkResolution
+} from './core/link-inventory';
+export { applyFixes } from './core/fixes';
+export { createKeywordMatcher, stemWord } from './core/keyword-matcher';
+export { BUILT_IN_PRESETS, resolvePresets } from './core/presets';
+export { getRuleCatalog, formatRuleReference, type RuleCatalogEntry } from './core/rule-docs';
+export { DEFAULT_SEVERITY_MULTIPLIERS, getRuleWeight, scoreResults } from './core/scoring';
+export { getImageReferences, resolveImagePath, type ImageReference } from './core/images';
+export { findCollection, validateFrontmatter, type SchemaViolation } from './core/collections';
+export { parseMarkdown } from './core/markdown-ast';
+export { analyzeReadability, scoreText } from './core/readability';
+export { analyzeContent, type AnalyzeContentOptions } from './core/content-analysis';
+export { LintCache, DEFAULT_CACHE_LOCATION } from './core/lint-cache';
 export {
   researchKeywords,
   type KeywordResearchResult,
   type ResearchKeywordsOptions
 } from './core/keywords-research';
 
+// Lint output formatters
+export { BUILT_IN_FORMATTERS, loadFormatter } from './formatters';
+
 // Generators
 export { generateRobots, type RobotsConfig } from './generators/robots-generator';
 export { generateSitemap, type SitemapConfig } from './generators/sitemap-generator';
+export {
+  generateStructuredData,
+  getPageStructuredData,
+  toJsonLdScript,
+  type JsonLdDocument,
+  type JsonLdNode,
+  type StructuredDataPage
+} from './generators/structured-data-generator';
 
 // AI Integration helpers
 export {
@@ -34,7 +69,24 @@ export { GoogleSearchConsoleClient, type GSCQuery, type GSCResult } from './inte
 // Essential types only
 export type {
   GTMConfig,
+  GTMPreset,
   ContentFile,
+  LintFormatter,
+  LintFormatterContext,
+  SEOLintReport,
+  SEOCorpusRule,
+  SEOCorpusFinding,
+  SEORuleDocs,
+  KeywordMatch,
+  KeywordMatcher,
+  ContentCollection,
+  FrontmatterSchema,
+  ContentAnalysis,
+  SEOLintFix,
+  ScoringConfig,
+  RuleScore,
+  ReadabilityAnalysis,
+  ReadabilitySection,
   AuditResult,
   GenerateOptions,
   AnalyzeOptions
@@ -0,0 +1,30 @@
+// Type declarations for micromark/mdast extensions that ship without typings
+
+declare module 'micromark-extension-frontmatter' {
+  import fromMarkdown = require('mdast-util-from-markdown');
+  type SyntaxExtension = NonNullable<fromMarkdown.Options['extensions']>[number];
+  function frontmatter(matters?: Array<string | Record<string, unknown>>): SyntaxExtension;
+  export = frontmatter;
+}
+
+declare module 'mdast-util-frontmatter' {
+  import fromMarkdown = require('mdast-util-from-markdown');
+  export function fromMarkdown(matters?: Array<string | Record<string, unknown>>): fromMarkdown.MdastExtension;
+}
+
+declare module 'mdast-util-gfm' {
+  import fromMarkdown = require('mdast-util-from-markdown');
+  export const fromMarkdown: fromMarkdown.MdastExtension;
+}
+
+declare module 'micromark-extension-mdxjs' {
+  import fromMarkdown = require('mdast-util-from-markdown');
+  type SyntaxExtension = NonNullable<fromMarkdown.Options['extensions']>[number];
+  function mdxjs(options?: Record<string, unknown>): SyntaxExtension;
+  export = mdxjs;
+}
+
+declare module 'mdast-util-mdx' {
+  import fromMarkdown = require('mdast-util-from-markdown');
+  export const fromMarkdown: fromMarkdown.MdastExtension;
+}
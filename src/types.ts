@@ -1,3 +1,5 @@
+import type { Code, Content, Heading, Image, Link, Paragraph, Root, YAML } from 'mdast';
+
 // Core configuration types
 export interface GTMConfig {
   framework: 'nextjs' | 'nuxt' | 'astro' | 'custom';
@@ -24,12 +26,17 @@ export interface GTMConfig {
     defaultDescription: string;
     twitterHandle?: string;
     facebookAppId?: string;
+    keywords?: SEOKeywordConfig;
   };
   content: {
     blogPath?: string;
     contentPath?: string;
     outputPath?: string;
     extensions?: string[];
+    categories?: string[];
+    // Site paths that exist outside the content files (/, /pricing, ...),
+    // used to resolve internal links
+    staticPages?: string[];
   };
   robots: {
     allowAIBots: boolean;
@@ -45,6 +52,97 @@ export interface GTMConfig {
     apiKey?: string;
     model?: string;
   };
+  // Presets applied before this config: built-in names ('recommended',
+  // 'strict', 'geo', 'docs'), local files or npm packages
+  extends?: string | string[];
+  plugins?: Array<string | GTMPlugin>;
+  rules?: Record<string, RuleSetting>;
+  // Rule weights and severity multipliers for report scores
+  scoring?: ScoringConfig;
+  // Content collections by name, each with its own frontmatter schema (SEO-007)
+  collections?: Record<string, ContentCollection>;
+  // Custom lint output formats: name -> module path or formatter function
+  formatters?: Record<string, string | LintFormatter>;
+}
+
+// ESLint-style rule configuration: "off", a severity, or [severity, options]
+export type SEOLintSeverity = 'error' | 'warning' | 'info';
+export type RuleSeveritySetting = SEOLintSeverity | 'off';
+export type RuleSetting =
+  | RuleSeveritySetting
+  | [RuleSeveritySetting]
+  | [RuleSeveritySetting, Record<string, any>];
+
+// Shareable bundle of rule settings; later presets and the config itself
+// override earlier ones
+export interface GTMPreset {
+  extends?: string | string[];
+  plugins?: Array<string | GTMPlugin>;
+  rules?: Record<string, RuleSetting>;
+  scoring?: ScoringConfig;
+}
+
+export interface ScoringConfig {
+  // Rule id -> weight (default 1); 0 leaves the rule out of the score
+  weights?: Record<string, number>;
+  // Multiplier per severity (defaults: error 3, warning 2, info 1)
+  severityMultipliers?: Partial<Record<SEOLintSeverity, number>>;
+}
+
+export type FrontmatterSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'date';
+
+// JSON-Schema-like description of frontmatter fields
+export interface FrontmatterSchema {
+  type?: FrontmatterSchemaType | FrontmatterSchemaType[];
+  enum?: unknown[];
+  // Regular expression source, e.g. '^\\d+ min read$'
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  required?: string[];
+  properties?: Record<string, FrontmatterSchema>;
+  items?: FrontmatterSchema;
+}
+
+export interface ContentCollection {
+  // Globs relative to the project root, e.g. 'content/service/**/*.md'
+  pattern: string | string[];
+  // Also decides which of date, category and Readtime SEO-002, SEO-003 and
+  // SEO-005 require
+  schema: FrontmatterSchema;
+  // Rule settings for files in the collection, merged over config.rules,
+  // e.g. { 'SEO-006': 'off' } for pages without date-prefixed filenames
+  rules?: Record<string, RuleSetting>;
+}
+
+export interface ResolvedContentCollection extends ContentCollection {
+  name: string;
+}
+
+export interface SEOKeywordConfig {
+  primary?: string[];
+  secondary?: string[];
+  // Keyword -> other phrasings that count as a mention, e.g. { 'feature flag': ['feature toggle'] }
+  synonyms?: Record<string, string[]>;
+  // Words treated as one term: irregular plurals and spellings, e.g. [['analysis', 'analyses']]
+  variants?: string[][];
+  // Match regular plurals and possessives ("flags", "team's"); default true
+  stemming?: boolean;
+}
+
+export interface KeywordMatch {
+  // Text as written, from the first to the last matched word
+  match: string;
+  index: number;
+}
+
+export interface KeywordMatcher {
+  // Whole-word matches of a keyword or its synonyms, ignoring case and plural forms
+  find: (text: string, keyword: string) => KeywordMatch[];
+  count: (text: string, keyword: string) => number;
+  contains: (text: string, keyword: string) => boolean;
+  // Comparable form of a single word ("Flags" -> "flag")
+  normalize: (word: string) => string;
 }
 
 export interface ContentFile {
@@ -56,40 +154,218 @@ export interface ContentFile {
 }
 
 // SEO Linting types
+// 1-based positions in the raw file, frontmatter included
+export interface SEOLintLocation {
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
 export interface SEOLintRuleResult {
   passed: boolean;
   message: string;
   suggestion?: string;
   line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  // Edit that resolves the finding, applied by `lint --fix` and `fix`
+  fix?: SEOLintFix;
+}
+
+// Replace the raw file text between two 0-based offsets (equal offsets insert)
+export interface SEOLintFix {
+  range: [number, number];
+  text: string;
+}
+
+// Markdown/MDX document parsed once per lint run and shared by every rule
+export type MarkdownNode = Root | Content;
+
+export interface MarkdownDocument {
+  root: Root;
+  format: 'markdown' | 'mdx';
+  // Set when MDX parsing failed and the document was parsed as plain Markdown
+  parseError?: string;
+  frontmatter?: YAML;
+  // Top-level nodes after the frontmatter block
+  body: Content[];
+  select: (type: string) => MarkdownNode[];
+  headings: () => Heading[];
+  links: () => Link[];
+  images: () => Image[];
+  paragraphs: () => Paragraph[];
+  codeBlocks: () => Code[];
+  // Readable text of a node, without code spans or code blocks
+  textOf: (node: MarkdownNode) => string;
+  // Readable text of the whole body, one block per line
+  proseText: () => string;
+  // Prose matches of a pattern, or of a function such as KeywordMatcher.find
+  // bound to a keyword, with their source locations
+  findText: (pattern: RegExp | ((text: string) => KeywordMatch[])) => Array<{ match: string; location: SEOLintLocation }>;
+  locate: (node: MarkdownNode) => SEOLintLocation;
+  // Location of a frontmatter key (falls back to the frontmatter block)
+  locateFrontmatterKey: (key: string) => SEOLintLocation;
+  // Location of the first body node, for findings about the document as a whole
+  locateBody: () => SEOLintLocation;
 }
 
-export interface SEOLintRule {
+// Site-level settings resolved for a single document before rules run
+export interface SEOLintContext {
+  document: MarkdownDocument;
+  keywords: {
+    primary: string[];
+    secondary: string[];
+  };
+  // Keyword matching with the synonyms and variants from seo.keywords
+  keywordMatcher: KeywordMatcher;
+  categories: string[];
+  // seo.siteUrl from gtm.config.js, e.g. to tell own links from outbound ones
+  siteUrl?: string;
+  // Collection the file belongs to (first matching glob in config.collections)
+  collection?: ResolvedContentCollection;
+  // Path of the linted file when known; `filename` passed to check() is only its basename
+  filePath?: string;
+  // Rule defaultOptions merged with options from config.rules
+  options: Record<string, any>;
+}
+
+// Fields shared by per-document rules and corpus rules
+export interface SEORuleDefinition {
   id: string;
   name: string;
   description: string;
   severity: 'error' | 'warning' | 'info';
-  check: (content: string, frontmatter: any, filename?: string) => SEOLintRuleResult;
+  defaultOptions?: Record<string, any>;
+  // Shown by `gtm-toolkit rules`; built-in rules keep theirs in core/rule-docs.ts
+  docs?: SEORuleDocs;
+}
+
+export interface SEORuleDocs {
+  category?: string;
+  // Why the rule matters for search or readers
+  rationale?: string;
+  // Short Markdown or frontmatter snippets that pass and fail the rule
+  good?: string;
+  bad?: string;
+}
+
+export interface SEOLintRule extends SEORuleDefinition {
+  // Return one result, or one finding per problem (each with its own location)
+  check: (
+    content: string,
+    frontmatter: any,
+    filename: string | undefined,
+    context: SEOLintContext
+  ) => SEOLintRuleResult | SEOLintRuleResult[];
+}
+
+// Corpus rules see every content file at once (duplicate titles, slug
+// collisions, ...) and report findings against individual files
+export interface SEOCorpusContext {
+  config?: GTMConfig;
+  // Every content file on the site, the checked files included, for
+  // site-wide lookups such as the URL inventory (SEO-074)
+  siteFiles: ContentFile[];
+  // Rule defaultOptions merged with options from config.rules
+  options: Record<string, any>;
+}
+
+export interface SEOCorpusFinding extends SEOLintRuleResult {
+  // ContentFile.path of the file the finding belongs to
+  file: string;
+}
+
+export interface SEOCorpusRule extends SEORuleDefinition {
+  checkCorpus: (files: ContentFile[], context: SEOCorpusContext) => SEOCorpusFinding[];
+}
+
+// Plugins register extra rules; their IDs are namespaced as `<plugin>/<rule>`
+export interface GTMPlugin {
+  name: string;
+  rules: SEOLintRule[];
 }
 
 export interface SEOLintResult extends SEOLintRuleResult {
   rule: string;
   name: string;
   severity: 'error' | 'warning' | 'info';
+  // Set when an inline gtm-disable directive covers this finding
+  suppressed?: boolean;
+  // Set when the finding is recorded in the lint baseline file
+  baselined?: boolean;
+}
+
+export interface SEOLintUnusedSuppression {
+  line: number;
+  column: number;
+  directive: string;
+  rules: string[];
+  message: string;
 }
 
 export interface SEOLintSummary {
   errors: number;
   warnings: number;
+  info: number;
   passed: number;
+  suppressed: number;
+  baselined: number;
 }
 
 export interface SEOLintReport {
   file: string;
   results: SEOLintResult[];
   score: number;
+  // Each rule's weight, share of the score and whether it earned it
+  scoreBreakdown: RuleScore[];
   summary: SEOLintSummary;
+  unusedSuppressions: SEOLintUnusedSuppression[];
+  // Flesch scores, passive voice and paragraph length, overall and per section
+  readability: ReadabilityAnalysis;
+  // Baseline entries for this file that no longer occur
+  fixedBaselineFindings?: LintBaselineEntry[];
+}
+
+export interface RuleScore {
+  rule: string;
+  name: string;
+  severity: SEOLintSeverity;
+  // Rule weight times severity multiplier
+  weight: number;
+  passed: boolean;
+  // Open (unsuppressed) findings
+  findings: number;
+  // Share of the 100-point score this rule is worth, and what it earned
+  maxPoints: number;
+  points: number;
 }
 
+// Existing violations recorded by `lint --write-baseline`
+export interface LintBaselineEntry {
+  rule: string;
+  // Relative to the directory lint ran from, with forward slashes
+  file: string;
+  // Hash of rule, file and the offending source line (or message)
+  fingerprint: string;
+  message: string;
+}
+
+export interface LintBaseline {
+  version: 1;
+  findings: LintBaselineEntry[];
+}
+
+// Lint output formatters turn reports into the text written by `lint --format`
+export interface LintFormatterContext {
+  cwd: string;
+  // Active rules, for formats that describe rules (SARIF)
+  rules: SEORuleDefinition[];
+}
+
+export type LintFormatter = (reports: SEOLintReport[], context: LintFormatterContext) => string;
+
 export interface AuditResult {
   file: string;
   issues: number;
@@ -100,6 +376,7 @@ export interface GenerateOptions {
   robots?: boolean;
   sitemap?: boolean;
   meta?: boolean;
+  structuredData?: boolean;
   all?: boolean;
 }
 
@@ -141,6 +418,34 @@ export interface ContentAnalysis {
   headingStructure: Array<{ level: number; text: string }>;
   links: Array<{ url: string; text: string; external: boolean }>;
   images: Array<{ src: string; alt: string; title?: string }>;
+  // Flesch scores, passive voice and paragraph length, overall and per section
+  readability: ReadabilityAnalysis;
+}
+
+// Readability scores for a block of prose (code excluded)
+export interface ReadabilityScores {
+  words: number;
+  sentences: number;
+  syllables: number;
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  // Sentences that look passive ("was deployed", "are used")
+  passiveSentences: number;
+  passiveRatio: number;
+}
+
+export interface ReadabilitySection extends ReadabilityScores {
+  // Undefined for the introduction before the first heading
+  heading?: string;
+  line: number;
+  paragraphs: number;
+}
+
+export interface ReadabilityAnalysis extends ReadabilityScores {
+  paragraphs: number;
+  averageParagraphWords: number;
+  longestParagraphWords: number;
+  sections: ReadabilitySection[];
 }
 
 // AI integration types
@@ -0,0 +1,44 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { getPluginRules } from '../core/plugins';
+import { loadConfig } from './config';
+
+const PLUGIN = `
+module.exports = {
+  name: 'house',
+  rules: [{ id: 'no-todo', name: 'No TODO', description: 'No TODO', severity: 'warning', check: () => ({ passed: true, message: 'ok' }) }]
+};
+`;
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-config-'));
+    await fs.outputFile(path.join(dir, 'site/rules/house.js'), PLUGIN);
+    await fs.outputFile(path.join(dir, 'site/presets/team.js'), "module.exports = { rules: { 'SEO-041': 'off' } };");
+    await fs.outputFile(
+      path.join(dir, 'site/gtm.config.js'),
+      "module.exports = { extends: './presets/team.js', plugins: ['./rules/house.js', 'acme'], rules: {} };"
+    );
+  });
+
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  it('resolves local plugin and preset paths against the config file, not the cwd', async () => {
+    const config = await loadConfig(path.join(dir, 'site/gtm.config.js'));
+
+    expect(config.plugins).toEqual([path.join(dir, 'site/rules/house.js'), 'acme']);
+    expect(config.rules).toEqual({ 'SEO-041': 'off' });
+    expect(getPluginRules({ ...config, plugins: config.plugins!.slice(0, 1) }).map(rule => rule.id)).toEqual(['house/no-todo']);
+  });
+
+  it('falls back to the default config when the file is missing', async () => {
+    const config = await loadConfig(path.join(dir, 'missing.config.js'));
+    expect(config.plugins).toBeUndefined();
+    expect(config.seo.siteUrl).toBe('https://example.com');
+  });
+});
@@ -1,10 +1,16 @@
+import { dirname, resolve } from 'path';
 import { getDefaultConfig, loadConfig as loadCoreConfig } from '../core/config';
+import { resolvePluginPaths, resolvePresets } from '../core/presets';
 import type { GTMConfig } from '../types';
 
-export async function loadConfig(path: string = 'gtm.config.js'): Promise<GTMConfig> {
+export const DEFAULT_CONFIG_PATH = 'gtm.config.js';
+
+export async function loadConfig(path: string = DEFAULT_CONFIG_PATH): Promise<GTMConfig> {
   const config = loadCoreConfig(path);
   if (config) {
-    return config;
+    // Local paths in `extends` and `plugins` are relative to the config file
+    const dir = dirname(resolve(path));
+    return resolvePresets(resolvePluginPaths(config, dir), dir);
   }
 
   return getDefaultConfig();
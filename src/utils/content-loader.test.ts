@@ -0,0 +1,43 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { GTMConfig } from '../types';
+import { loadContentFiles, loadSiteContentFiles } from './content-loader';
+
+describe('content loader', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-content-'));
+    for (let index = 0; index < 1005; index++) {
+      await fs.outputFile(path.join(dir, 'content/blog', `post-${index}.md`), `---\ntitle: Post ${index}\n---\n# Post\n`);
+    }
+    await fs.outputFile(path.join(dir, 'content/blog/drafts/wip.md'), '# Draft\n');
+    await fs.outputFile(path.join(dir, 'content/blog/notes.txt'), 'Not content\n');
+  });
+
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  it('parses frontmatter and skips drafts and other extensions', async () => {
+    const [file] = await loadContentFiles(path.join(dir, 'content/blog/post-1.md'));
+    expect(file).toMatchObject({ frontmatter: { title: 'Post 1' }, body: '# Post\n' });
+
+    const files = await loadContentFiles(path.join(dir, 'content'), { maxFiles: Infinity });
+    expect(files).toHaveLength(1005);
+    expect(files.some(entry => entry.path.includes('drafts'))).toBe(false);
+  });
+
+  it('loads every site file, beyond the default cap of loadContentFiles', async () => {
+    expect(await loadContentFiles(path.join(dir, 'content'))).toHaveLength(1000);
+
+    const config = { content: { contentPath: path.join(dir, 'content') } } as GTMConfig;
+    expect(await loadSiteContentFiles(config)).toHaveLength(1005);
+  });
+
+  it('returns no site files when the content path is missing', async () => {
+    const config = { content: { contentPath: path.join(dir, 'missing') } } as GTMConfig;
+    expect(await loadSiteContentFiles(config)).toEqual([]);
+  });
+});
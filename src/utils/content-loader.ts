@@ -2,7 +2,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import { globSync } from 'glob';
 import matter from 'gray-matter';
-import { ContentFile } from '../types';
+import { ContentFile, GTMConfig } from '../types';
 
 export interface LoadContentOptions {
   extensions?: string[];
@@ -80,6 +80,16 @@ export async function loadContentFiles(
   return contentFiles;
 }
 
+// Every content file under content.contentPath (default "content"), e.g. for
+// the URL inventory when only part of the site is linted
+export async function loadSiteContentFiles(config?: GTMConfig): Promise<ContentFile[]> {
+  const contentPath = config?.content?.contentPath ?? 'content';
+  if (!(await fs.pathExists(contentPath))) {
+    return [];
+  }
+  return loadContentFiles(contentPath, { extensions: config?.content?.extensions, maxFiles: Infinity });
+}
+
 export async function loadSingleContentFile(filePath: string): Promise<ContentFile | null> {
   try {
     const files = await loadContentFiles(filePath);
@@ -0,0 +1,78 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { filterChangedFiles, getChangedFiles, isLineChanged } from './git';
+
+const git = (cwd: string, ...args: string[]): void => {
+  execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' });
+};
+
+describe('git changed files', () => {
+  let repo: string;
+  const write = (file: string, content: string) => fs.outputFileSync(path.join(repo, file), content);
+  const relativePaths = (files: Array<{ path: string }>) =>
+    files.map(file => path.relative(fs.realpathSync(repo), file.path)).sort();
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'gtm-git-'));
+    git(repo, 'init', '-q');
+  });
+
+  afterEach(() => {
+    fs.removeSync(repo);
+  });
+
+  it('lists staged and untracked content files before the first commit', () => {
+    write('content/blog/staged.md', '# Staged\n');
+    write('content/blog/untracked.mdx', '# Untracked\n');
+    write('content/blog/notes.txt', 'Not content\n');
+    git(repo, 'add', 'content/blog/staged.md');
+
+    const changed = getChangedFiles({ cwd: repo });
+    expect(relativePaths(changed)).toEqual(['content/blog/staged.md', 'content/blog/untracked.mdx']);
+  });
+
+  it('reports the changed line ranges of modified files', () => {
+    write('content/blog/post.md', ['# Post', '', 'One', '', 'Two', ''].join('\n'));
+    write('content/blog/same.md', '# Same\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'init');
+    write('content/blog/post.md', ['# Post', '', 'One', '', 'Two changed', ''].join('\n'));
+
+    const [post] = getChangedFiles({ cwd: repo });
+    expect(relativePaths([post])).toEqual(['content/blog/post.md']);
+    expect(post.lines).toEqual([{ start: 5, end: 5 }]);
+    expect(isLineChanged(post, 5)).toBe(true);
+    expect(isLineChanged(post, 3)).toBe(false);
+  });
+
+  it('only lists staged changes with staged', () => {
+    write('content/blog/post.md', '# Post\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'init');
+    write('content/blog/post.md', '# Post changed\n');
+    write('content/blog/new.md', '# New\n');
+
+    expect(getChangedFiles({ cwd: repo, staged: true })).toEqual([]);
+    git(repo, 'add', 'content/blog/post.md');
+    expect(relativePaths(getChangedFiles({ cwd: repo, staged: true }))).toEqual(['content/blog/post.md']);
+  });
+
+  it('matches targets given through a symlink and keeps their spelling', () => {
+    write('content/blog/post.md', '# Post\n');
+    write('docs/intro.md', '# Intro\n');
+    const link = `${repo}-link`;
+    fs.symlinkSync(repo, link);
+
+    try {
+      const changed = getChangedFiles({ cwd: link });
+      expect(filterChangedFiles(changed, [path.join(link, 'content')]).map(file => file.path))
+        .toEqual([path.join(link, 'content', 'blog', 'post.md')]);
+      expect(filterChangedFiles(changed, [path.join(link, 'content/blog/post.md')])).toHaveLength(1);
+      expect(filterChangedFiles(changed, [path.join(link, 'content/blog/missing.md')])).toEqual([]);
+    } finally {
+      fs.removeSync(link);
+    }
+  });
+});
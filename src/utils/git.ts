@@ -0,0 +1,133 @@
+// Git utilities - find changed content files for `lint --changed`
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { globSync } from 'glob';
+
+export interface ChangedFilesOptions {
+  // Compare against the merge base with this ref instead of HEAD
+  since?: string;
+  // Only look at changes staged in the index
+  staged?: boolean;
+  extensions?: string[];
+  cwd?: string;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface ChangedFile {
+  path: string;
+  // Changed line ranges in the new file; undefined when the whole file is new
+  lines?: LineRange[];
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+
+function runGit(args: string[], cwd: string): string {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+
+  if (result.error) {
+    throw new Error(`Failed to run git: ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    throw new Error(`git ${args[0]} failed: ${result.stderr.trim() || `exit code ${result.status}`}`);
+  }
+
+  return result.stdout;
+}
+
+function hasCommits(cwd: string): boolean {
+  return spawnSync('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd }).status === 0;
+}
+
+// The diff arguments shared by the file list and the line-level diff
+function diffTarget(options: ChangedFilesOptions, cwd: string): string[] {
+  if (options.staged) {
+    return ['--cached'];
+  }
+  if (options.since) {
+    // Like a pull request diff: ignore commits that landed on the ref after we branched
+    return [runGit(['merge-base', options.since, 'HEAD'], cwd).trim()];
+  }
+  // Before the first commit there is no HEAD to diff against: every staged
+  // file is new, and untracked files are added below
+  return hasCommits(cwd) ? ['HEAD'] : ['--cached'];
+}
+
+function parseHunks(diff: string): LineRange[] {
+  const ranges: LineRange[] = [];
+
+  for (const line of diff.split('\n')) {
+    const match = HUNK_HEADER.exec(line);
+    if (!match) {
+      continue;
+    }
+    const start = Number(match[1]);
+    const count = match[2] === undefined ? 1 : Number(match[2]);
+    // Pure deletions (+n,0) leave no lines behind to report on
+    if (count > 0) {
+      ranges.push({ start, end: start + count - 1 });
+    }
+  }
+
+  return ranges;
+}
+
+// List added, modified and renamed Markdown/MDX files. Paths are absolute.
+// Without `staged`, untracked files count as added.
+export function getChangedFiles(options: ChangedFilesOptions = {}): ChangedFile[] {
+  const cwd = options.cwd ?? process.cwd();
+  const extensions = options.extensions ?? ['.md', '.mdx'];
+  const root = runGit(['rev-parse', '--show-toplevel'], cwd).trim();
+  const target = diffTarget(options, cwd);
+
+  const changed = runGit(['diff', '--name-only', '-z', '--diff-filter=AMR', ...target], root)
+    .split('\0')
+    .filter(Boolean);
+  const untracked = options.staged
+    ? []
+    : runGit(['ls-files', '--others', '--exclude-standard', '-z'], root).split('\0').filter(Boolean);
+
+  const isContent = (file: string) => extensions.includes(path.extname(file).toLowerCase());
+
+  return [
+    ...changed.filter(isContent).map(file => ({
+      path: path.join(root, file),
+      lines: parseHunks(runGit(['diff', '-U0', '--no-color', ...target, '--', file], root))
+    })),
+    ...untracked.filter(isContent).map(file => ({ path: path.join(root, file) }))
+  ];
+}
+
+// git reports real paths, so compare against the real path of each target.
+// Paths that do not exist yet are compared as given.
+function toRealPath(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    return path.resolve(file);
+  }
+}
+
+// Keep changed files that fall under one of the targets (files, directories
+// or globs). Matched paths are rebased onto the target as resolved from the
+// working directory, so they compare equal to paths of files loaded from it
+// even in a symlinked checkout.
+export function filterChangedFiles(changedFiles: ChangedFile[], targets: string[]): ChangedFile[] {
+  const roots = targets
+    .flatMap(target => (/[*?]/.test(target) ? globSync(target) : [target]))
+    .map(target => ({ resolved: path.resolve(target), real: toRealPath(target) }));
+
+  return changedFiles.flatMap(file => {
+    const real = toRealPath(file.path);
+    const root = roots.find(({ real: rootPath }) => real === rootPath || real.startsWith(`${rootPath}${path.sep}`));
+    return root ? [{ ...file, path: path.join(root.resolved, path.relative(root.real, real)) }] : [];
+  });
+}
+
+export function isLineChanged(file: ChangedFile, line: number): boolean {
+  return file.lines === undefined || file.lines.some(range => line >= range.start && line <= range.end);
+}
@@ -0,0 +1,65 @@
+// URL slugs for content files - shared by the sitemap generator and corpus rules
+import path from 'path';
+
+// Content directories and the URL sections the sitemap publishes them under
+export const CONTENT_URL_PREFIXES: Record<string, string> = {
+  blog: '/blog/',
+  service: '/services/',
+  project: '/projects/'
+};
+
+// Pages the sitemap lists when content.staticPages is not configured
+export const DEFAULT_STATIC_PAGES = ['/', '/about', '/contact', '/blog', '/services'];
+
+// Slug from the title when there is one, otherwise from the filename
+// without its extension and YYYY-MM-DD- date prefix
+export function generateSlug(filename: string, title?: string): string {
+  const baseFromFilename = path.basename(filename)
+    .replace(/\.(md|mdx)$/, '')
+    .replace(/^\d{4}-\d{2}-\d{2}-/, '');
+
+  const source = title ? title : baseFromFilename;
+
+  return source
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// URL section for a content file, from its parent directory
+export function getContentUrlPrefix(filePath: string): string {
+  const directory = path.basename(path.dirname(filePath));
+  return CONTENT_URL_PREFIXES[directory] ?? `/${directory}/`;
+}
+
+// A frontmatter slug overrides the generated one; a slug starting with /
+// replaces the whole path
+export function getContentUrl(filePath: string, frontmatter: Record<string, unknown> = {}): string {
+  const slug = typeof frontmatter.slug === 'string' ? frontmatter.slug.trim() : '';
+  if (slug.startsWith('/')) {
+    return slug.length > 1 ? slug.replace(/\/+$/, '') : slug;
+  }
+  if (slug) {
+    return `${getContentUrlPrefix(filePath)}${slug.replace(/\/+$/, '')}`;
+  }
+
+  const title = typeof frontmatter.title === 'string' ? frontmatter.title : undefined;
+  return `${getContentUrlPrefix(filePath)}${generateSlug(filePath, title)}`;
+}
+
+// Heading anchor ids as generated by GitHub and most static site generators.
+// An explicit {#id} at the end of the heading wins.
+export function generateHeadingId(text: string): string {
+  const explicit = text.match(/\{#([^}\s]+)\}\s*$/);
+  if (explicit) {
+    return explicit[1];
+  }
+
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
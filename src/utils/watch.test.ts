@@ -0,0 +1,66 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ContentWatcher, watchContent } from './watch';
+
+describe('watchContent', () => {
+  let dir: string;
+  let watcher: ContentWatcher | undefined;
+  let batches: string[][];
+  let notify: (() => void) | undefined;
+
+  // Resolves with the next batch reported after the action runs
+  const nextBatch = async (action: () => Promise<void>): Promise<string[]> => {
+    const received = new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('No change reported')), 5000);
+      notify = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+    });
+    await action();
+    await received;
+    return batches[batches.length - 1].map(file => path.relative(dir, file)).sort();
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gtm-watch-'));
+    await fs.outputFile(path.join(dir, 'content/blog/post.md'), '# Post\n');
+    batches = [];
+    watcher = watchContent([path.join(dir, 'content')], files => {
+      batches.push(files);
+      notify?.();
+    }, { debounceMs: 50 });
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    await fs.remove(dir);
+  });
+
+  it('reports created, modified and deleted content files', async () => {
+    expect(await nextBatch(() => fs.writeFile(path.join(dir, 'content/blog/post.md'), '# Changed\n')))
+      .toEqual(['content/blog/post.md']);
+    expect(await nextBatch(() => fs.writeFile(path.join(dir, 'content/blog/new.mdx'), '# New\n')))
+      .toEqual(['content/blog/new.mdx']);
+    expect(await nextBatch(() => fs.remove(path.join(dir, 'content/blog/post.md'))))
+      .toEqual(['content/blog/post.md']);
+  });
+
+  it('batches changes within the debounce window and ignores other files', async () => {
+    const files = await nextBatch(async () => {
+      await fs.writeFile(path.join(dir, 'content/blog/post.md'), '# Changed\n');
+      await fs.writeFile(path.join(dir, 'content/blog/notes.txt'), 'Not content\n');
+      await fs.writeFile(path.join(dir, 'content/blog/other.md'), '# Other\n');
+    });
+    expect(files).toEqual(['content/blog/other.md', 'content/blog/post.md']);
+  });
+
+  it('watches directories created after it started', async () => {
+    // A new directory is picked up when the debounced batch flushes
+    await fs.ensureDir(path.join(dir, 'content/guides'));
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(await nextBatch(() => fs.writeFile(path.join(dir, 'content/guides/setup.md'), '# Setup\n')))
+      .toEqual(['content/guides/setup.md']);
+  });
+});
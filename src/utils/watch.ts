@@ -0,0 +1,96 @@
+// File watching for `lint --watch` - one fs.watch per directory, since
+// recursive fs.watch is not available on Linux before Node 20
+import fs from 'fs';
+import path from 'path';
+
+export interface WatchContentOptions {
+  extensions?: string[];
+  debounceMs?: number;
+}
+
+export interface ContentWatcher {
+  close(): void;
+}
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build']);
+
+const listDirectories = (root: string): string[] => {
+  const directories = [root];
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+      directories.push(...listDirectories(path.join(root, entry.name)));
+    }
+  }
+  return directories;
+};
+
+// Call onChange with the content files (absolute paths) that were created,
+// modified or deleted, batched per debounce window.
+export function watchContent(
+  targets: string[],
+  onChange: (files: string[]) => void,
+  options: WatchContentOptions = {}
+): ContentWatcher {
+  const { extensions = ['.md', '.mdx'], debounceMs = 100 } = options;
+  const watchers = new Map<string, fs.FSWatcher>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const roots = targets.map(target => path.resolve(target));
+  const isWatchedFile = (file: string) =>
+    extensions.includes(path.extname(file).toLowerCase()) &&
+    roots.some(root => file === root || file.startsWith(`${root}${path.sep}`));
+
+  const flush = () => {
+    timer = undefined;
+    const files = [...pending];
+    pending.clear();
+    syncWatchers();
+    if (files.length > 0) {
+      onChange(files);
+    }
+  };
+
+  const watchDirectory = (directory: string) => {
+    if (watchers.has(directory)) {
+      return;
+    }
+    const watcher = fs.watch(directory, (_event, filename) => {
+      const file = filename ? path.join(directory, filename.toString()) : undefined;
+      if (file && isWatchedFile(file)) {
+        pending.add(file);
+      }
+      // Rescan on every batch so new subdirectories get watched too
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+    });
+    watcher.on('error', () => {
+      watcher.close();
+      watchers.delete(directory);
+    });
+    watchers.set(directory, watcher);
+  };
+
+  const syncWatchers = () => {
+    for (const root of roots) {
+      if (!fs.existsSync(root)) {
+        continue;
+      }
+      if (fs.statSync(root).isDirectory()) {
+        listDirectories(root).forEach(watchDirectory);
+      } else {
+        watchDirectory(path.dirname(root));
+      }
+    }
+  };
+
+  syncWatchers();
+
+  return {
+    close: () => {
+      clearTimeout(timer);
+      watchers.forEach(watcher => watcher.close());
+      watchers.clear();
+    }
+  };
+}